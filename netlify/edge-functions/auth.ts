@@ -1,67 +1,203 @@
 import { Hono } from 'hono'
 import { cors } from 'hono/cors'
-import { generateJWT, corsOptions } from '../utils/shared.ts'
-import { verifyMessage } from 'ethers'
+import { corsOptions, getChainId, getSiweDomains } from '../utils/shared.ts'
+import { generateJWT, verifyJWT, revokeJWT, issueRefreshToken, rotateRefreshToken, revokeRefreshToken } from '../utils/tokens.ts'
+import { verifySiweMessage } from '../utils/siwe.ts'
+import { getNonceStore } from '../utils/nonces.ts'
+import { getTypedDataSchema, isTypedDataAction, verifyTypedDataAction } from '../utils/typedData.ts'
+import { createSessionKey, listSessionKeys, revokeSessionKey, DELEGATABLE_ACTIONS, MAX_SESSION_KEY_TTL_SECONDS } from '../utils/sessionKeys.ts'
+import { requireAuth, type AuthEnv } from '../utils/middleware.ts'
 
-const app = new Hono()
+const app = new Hono<AuthEnv>()
 
 app.use('*', cors(corsOptions))
 
+/**
+ * Issue a single-use nonce bound to the address
+ * the nonce must be signed within 5 minutes, in the SIWE message or the typed data message
+ */
+app.get('/auth/nonce', async (c) => {
+  const address = c.req.query('address')
+  if (!address || !/^0x[a-fA-F0-9]{40}$/.test(address)) {
+    return c.json({ error: 'A valid address parameter is required' }, { status: 400 })
+  }
+
+  const issued = await getNonceStore().issue(address)
+
+  return c.json({
+    nonce: issued.nonce,
+    address: issued.address,
+    expiresAt: new Date(issued.expiresAt).toISOString()
+  }, { status: 200 })
+})
+
+/**
+ * Get the canonical EIP-712 schema for a draft action
+ * action is one of CreateFile, UpdateFile, PublishFile, DeleteFile, RestoreRevision, AuthorizeSessionKey
+ */
+app.get('/auth/typedData/:action', (c) => {
+  const action = c.req.param('action')
+  if (!isTypedDataAction(action)) {
+    return c.json({ error: `Unknown action ${action}` }, { status: 404 })
+  }
+
+  return c.json(getTypedDataSchema(action), { status: 200 })
+})
+
 app.post('/auth/login', async (c) => {
   const body = await c.req.json()
   const salt = body.salt
   const address = body.address
   const signature = body.signature
 
-  const isAuthenticated = await authenticateSignature(salt as string, signature as string, address as string)
+  if (!salt || !address || !signature) {
+    return c.json({ error: 'salt, address and signature are required' }, { status: 400 })
+  }
+
+  const result = await verifySiweMessage(salt as string, signature as string, {
+    domains: getSiweDomains(),
+    chainId: getChainId(),
+    address: address as string,
+    maxAgeSeconds: 60,
+  })
   
-  if (!isAuthenticated) {
-    return c.json({ error: 'Authentication failed' }, { status: 401 })
+  if (!result.ok) {
+    console.error(`[auth] SIWE message rejected: ${result.code}`)
+    return c.json({ error: 'Authentication failed', code: result.code, message: result.error }, { status: 401 })
+  }
+
+  const nonceAccepted = await getNonceStore().consume(result.message.nonce, address as string)
+  if (!nonceAccepted) {
+    return c.json({ error: 'Authentication failed', code: 'INVALID_NONCE', message: 'Nonce was not issued for this address or was already used' }, { status: 401 })
   }
 
   const token = await generateJWT(address as string)
+  const refreshToken = await issueRefreshToken(address as string)
   
   return c.json({ 
     token,
+    refreshToken,
     address: address.toLowerCase(),
     expiresIn: '2h'
   }, { status: 200 })
 })
 
-async function authenticateSignature(
-  salt: string,
-  signature: string,
-  address: string
-): Promise<boolean> {
-  if (!salt || !address || !signature) {
-    return false
+/**
+ * Exchange a refresh token for a new access token and refresh token
+ * the presented refresh token is rotated, using it twice revokes every token of that login
+ */
+app.post('/auth/refresh', async (c) => {
+  const body = await c.req.json()
+  const refreshToken = body.refreshToken
+  if (!refreshToken) {
+    return c.json({ error: 'refreshToken is required' }, { status: 400 })
   }
-  
-  // Extract the "Issued At" timestamp from SIWE message
-  const issuedAtMatch = salt.match(/Issued At: (.+)/)
-  if (!issuedAtMatch) {
-    console.error('[auth] No "Issued At" field found in SIWE message')
-    return false
+
+  const rotated = await rotateRefreshToken(refreshToken as string)
+  if (!rotated) {
+    return c.json({ error: 'Invalid or expired refresh token' }, { status: 401 })
   }
-  
-  const issuedAtStr = issuedAtMatch[1]
-  const issuedAtTimestamp = new Date(issuedAtStr).getTime() / 1000
-  const currentTimestamp = Date.now() / 1000
-  const timeDiff = currentTimestamp - issuedAtTimestamp
-  
-  // Check if message is older than 60 seconds
-  if (timeDiff > 60) {
-    return false
+
+  const token = await generateJWT(rotated.address)
+
+  return c.json({
+    token,
+    refreshToken: rotated.refreshToken,
+    address: rotated.address,
+    expiresIn: '2h'
+  }, { status: 200 })
+})
+
+/**
+ * Revoke the access token in the Authorization header and the refresh token in the body
+ */
+app.post('/auth/logout', async (c) => {
+  const body = await c.req.json().catch(() => ({}))
+  let loggedOut = false
+
+  const authHeader = c.req.header('Authorization')
+  if (authHeader && authHeader.startsWith('Bearer ')) {
+    const jwtPayload = await verifyJWT(authHeader.substring(7))
+    if (jwtPayload && jwtPayload.jti) {
+      await revokeJWT(jwtPayload.jti, jwtPayload.exp)
+      loggedOut = true
+    }
   }
-  
-  try {
-    const recoveredAddr = verifyMessage(salt, signature);
-    return recoveredAddr.toLowerCase() === address.toLowerCase()
-  } catch (err) {
-    console.error('Signature verification error:', err)
-    return false
+
+  if (body.refreshToken) {
+    loggedOut = await revokeRefreshToken(body.refreshToken as string) || loggedOut
   }
-}
+
+  if (!loggedOut) {
+    return c.json({ error: 'A valid access token or refresh token is required' }, { status: 401 })
+  }
+
+  return c.json({ success: true }, { status: 200 })
+})
+
+/**
+ * Authorize an ephemeral session key to sign draft actions on behalf of the wallet
+ * the wallet signs an AuthorizeSessionKey message once, the session key then signs
+ * CreateFile / UpdateFile requests until it expires or is revoked
+ */
+app.post('/auth/sessionKeys', async (c) => {
+  const body = await c.req.json()
+  const salt = body.salt
+  const address = body.address
+  const signature = body.signature
+
+  const message = salt?.message
+  const actions = typeof message?.actions === 'string'
+    ? message.actions.split(',').map((action: string) => action.trim()).filter((action: string) => action.length > 0)
+    : []
+  if (actions.length === 0 || actions.some((action: string) => !DELEGATABLE_ACTIONS.includes(action))) {
+    return c.json({ error: `actions must be a comma-separated subset of ${DELEGATABLE_ACTIONS.join(', ')}` }, { status: 400 })
+  }
+
+  const expiresAt = parseInt(`${message?.expiresAt}`)
+  const now = Math.floor(Date.now() / 1000)
+  if (!(expiresAt > now) || expiresAt - now > MAX_SESSION_KEY_TTL_SECONDS) {
+    return c.json({ error: `expiresAt must be in the future and at most ${MAX_SESSION_KEY_TTL_SECONDS} seconds away` }, { status: 400 })
+  }
+
+  const result = await verifyTypedDataAction('AuthorizeSessionKey', address, message, signature, {})
+  if (!result.ok) {
+    return c.json({ error: result.error }, { status: result.status })
+  }
+
+  const sessionKey = await createSessionKey(address, `${result.message.sessionKey}`, actions, expiresAt)
+
+  return c.json({ sessionKey }, { status: 200 })
+})
+
+/**
+ * List the session keys of the authenticated address
+ * jwt token is required for this request.
+ */
+app.get('/auth/sessionKeys', requireAuth(), async (c) => {
+  const sessionKeys = await listSessionKeys(c.get('address'))
+
+  return c.json({ sessionKeys }, { status: 200 })
+})
+
+/**
+ * Revoke a session key of the authenticated address
+ * jwt token is required for this request.
+ */
+app.post('/auth/sessionKeys/revoke', requireAuth(), async (c) => {
+  const body = await c.req.json()
+  const sessionKey = body.sessionKey
+  if (!sessionKey) {
+    return c.json({ error: 'sessionKey is required' }, { status: 400 })
+  }
+
+  const revoked = await revokeSessionKey(c.get('address'), sessionKey as string)
+  if (!revoked) {
+    return c.json({ error: 'Session key not found' }, { status: 404 })
+  }
+
+  return c.json({ success: true }, { status: 200 })
+})
 
 export default app.fetch
 
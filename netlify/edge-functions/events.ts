@@ -0,0 +1,120 @@
+import { Hono } from 'hono'
+import { cors } from 'hono/cors'
+import { corsOptions, getReconcileConfig } from '../utils/shared.ts'
+import { requireAuth, type AuthEnv } from '../utils/middleware.ts'
+import { formatLedgerEntry, listFailedEvents } from '../utils/eventLedger.ts'
+import { replayEvents, retryDueEvents } from '../utils/eventPipeline.ts'
+import { confirmPosts } from '../utils/confirmations.ts'
+import { reconcileDrafts } from '../utils/reconcile.ts'
+
+const app = new Hono<AuthEnv>()
+
+app.use('*', cors(corsOptions))
+
+// Events replayed or retried by one request
+const MAX_EVENTS_PER_REQUEST = 25
+
+/**
+ * Get the chain events that failed
+ * jwt token with admin scope is required for this request
+ * - status: failed (waiting for a retry) or dead (attempts exhausted), both by default
+ * return the ledger entries, oldest first
+ */
+app.get('/admin/events', requireAuth('admin'), async (c) => {
+  const status = c.req.query('status')
+  if (status && status !== 'failed' && status !== 'dead') {
+    return c.json({ error: 'status must be failed or dead' }, { status: 400 })
+  }
+
+  try {
+    const events = await listFailedEvents(status as 'failed' | 'dead' | undefined)
+    return c.json({ events: events.map(formatLedgerEntry), count: events.length }, { status: 200 })
+  } catch (error) {
+    console.error('Error listing events:', error)
+    return c.json({ error: 'Failed to list events' }, { status: 500 })
+  }
+})
+
+/**
+ * Replay failed or dead chain events now, their attempts start over
+ * jwt token with admin scope is required for this request
+ * body is { ids: ["<chainId>:<txHash>:<logIndex>", ...] }, at most 25 ids
+ * return the result of every event
+ */
+app.post('/admin/events/replay', requireAuth('admin'), async (c) => {
+  const body = await c.req.json().catch(() => null)
+  const ids = body?.ids
+  if (!Array.isArray(ids) || ids.length === 0 || !ids.every(id => typeof id === 'string')) {
+    return c.json({ error: 'ids must be a non-empty array of event ids' }, { status: 400 })
+  }
+  if (ids.length > MAX_EVENTS_PER_REQUEST) {
+    return c.json({ error: `At most ${MAX_EVENTS_PER_REQUEST} events can be replayed at once` }, { status: 400 })
+  }
+
+  try {
+    const results = await replayEvents(ids)
+    const unknown = ids.filter((_, index) => results[index] === null)
+    if (unknown.length > 0) {
+      console.log('ℹ️ Unknown event ids:', unknown)
+    }
+    return c.json({ events: results.filter(result => result !== null), unknown }, { status: 200 })
+  } catch (error) {
+    console.error('Error replaying events:', error)
+    return c.json({ error: 'Failed to replay events' }, { status: 500 })
+  }
+})
+
+/**
+ * Retry the failed chain events whose backoff is over
+ * jwt token with admin scope is required for this request
+ * return the result of every retried event
+ */
+app.post('/admin/events/retry', requireAuth('admin'), async (c) => {
+  try {
+    const results = await retryDueEvents(MAX_EVENTS_PER_REQUEST)
+    return c.json({ events: results, count: results.length }, { status: 200 })
+  } catch (error) {
+    console.error('Error retrying events:', error)
+    return c.json({ error: 'Failed to retry events' }, { status: 500 })
+  }
+})
+
+/**
+ * Check the confirming posts against the chain
+ * jwt token with admin scope is required for this request
+ * posts with CONFIRMATIONS confirmations become onchain, posts missing after CONFIRMATION_TIMEOUT_SECONDS go back to pending
+ * return the number of posts in each status
+ */
+app.post('/admin/events/confirm', requireAuth('admin'), async (c) => {
+  try {
+    const summary = await confirmPosts()
+    return c.json(summary, { status: 200 })
+  } catch (error) {
+    console.error('Error confirming posts:', error)
+    return c.json({ error: 'Failed to confirm posts' }, { status: 500 })
+  }
+})
+
+/**
+ * Reconcile the next page of the drafts with the marketplace contract, as the scheduled reconcile function does
+ * jwt token with admin scope is required for this request
+ * - dryRun: true by default, false marks the pending drafts found on chain onchain
+ * dry runs page through the drafts with their own cursors
+ * return the report of the page
+ */
+app.post('/admin/reconcile', requireAuth('admin'), async (c) => {
+  const dryRun = c.req.query('dryRun') !== 'false'
+
+  try {
+    const report = await reconcileDrafts({ ...getReconcileConfig(), dryRun })
+    return c.json(report, { status: 200 })
+  } catch (error) {
+    console.error('Reconcile error:', error)
+    return c.json({ error: 'Failed to reconcile drafts' }, { status: 500 })
+  }
+})
+
+export default app.fetch
+export const config = {
+  path: ["/admin/events", "/admin/events/replay", "/admin/events/retry", "/admin/events/confirm", "/admin/reconcile"]
+}
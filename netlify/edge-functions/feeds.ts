@@ -0,0 +1,171 @@
+import { Hono, type Context } from 'hono'
+import { ethers } from 'ethers'
+import { cors } from 'hono/cors'
+import { marketplace_abi } from '../abis/marketPlace.ts'
+import { provider } from '../utils/provider.ts'
+import { corsOptions, getMarketplaceAddress, getSiteUrl, getPublicGatewayUrl, sha256Hex } from '../utils/shared.ts'
+import { getContentStore, type StoredFile } from '../utils/storage.ts'
+import { getFileDocument } from '../utils/drafts.ts'
+import { renderExcerpt } from '../utils/render.ts'
+import { getFileTags } from '../utils/tags.ts'
+import { buildFeed, isFeedFormat, FEED_CONTENT_TYPES, FEED_FORMATS, type Feed, type FeedEntry, type FeedFormat } from '../utils/feeds.ts'
+
+const app = new Hono()
+
+app.use('*', cors(corsOptions))
+
+// Number of latest posts in a feed
+const FEED_SIZE = 20
+
+// Feeds are cached by readers and the CDN for 5 minutes
+const FEED_MAX_AGE_SECONDS = 300
+
+const getPublishedAt = (file: StoredFile) => new Date(file.keyvalues.publishedAt || file.created_at).toISOString()
+
+/**
+ * Build the feed entry of a published file
+ * free posts carry a rendered excerpt, paid posts only their title and description
+ * @returns null when the file is not a post on chain
+ */
+const toFeedEntry = async (file: StoredFile, marketplaceContract: ethers.Contract): Promise<FeedEntry | null> => {
+  const postId = await marketplaceContract.postCidToTokenId(file.cid)
+  if (postId === 0n) {
+    return null
+  }
+
+  const postInfo = await marketplaceContract.postInfo(postId)
+  const free = postInfo.priceInNative == 0
+
+  let contentHtml: string | null = null
+  if (free) {
+    try {
+      const document = await getFileDocument(file)
+      contentHtml = document && (renderExcerpt(document, 'html').trim() || null)
+    } catch (error) {
+      console.error('Feed excerpt error:', error)
+    }
+  }
+
+  return {
+    postId: postId.toString(),
+    url: `${getSiteUrl()}/post/${postId}`,
+    title: postInfo.postTitle,
+    author: (postInfo.author as string).toLowerCase(),
+    publishedAt: getPublishedAt(file),
+    tags: getFileTags(file),
+    summary: postInfo.description,
+    contentHtml,
+    image: postInfo.thumbnailCid ? `${getPublicGatewayUrl()}/ipfs/${postInfo.thumbnailCid}` : null,
+  }
+}
+
+/**
+ * The latest posts published on chain, newest first
+ * a draft can be published long after it was uploaded, the posts are selected by publication date
+ * @param owner - Only the posts of this creator
+ */
+const getFeedEntries = async (owner?: string) => {
+  const keyvalues: Record<string, string> = { status: "onchain" }
+  if (owner) {
+    keyvalues.owner = owner
+  }
+  const files = (await getContentStore().listAllFiles({ keyvalues }))
+    .sort((a, b) => getPublishedAt(b).localeCompare(getPublishedAt(a)))
+    .slice(0, FEED_SIZE)
+
+  const marketplaceContract = new ethers.Contract(getMarketplaceAddress(), marketplace_abi, provider)
+  const entries = await Promise.all(files.map(file => toFeedEntry(file, marketplaceContract)))
+  return entries
+    .filter((entry): entry is FeedEntry => entry !== null)
+    .sort((a, b) => b.publishedAt.localeCompare(a.publishedAt))
+}
+
+/**
+ * Respond with the feed, or 304 when the reader's copy is current
+ * - ETag is the sha-256 of the serialized feed
+ * - Last-Modified is the publication date of the newest post
+ */
+const feedResponse = async (c: Context, feed: Feed, format: FeedFormat) => {
+  const body = buildFeed(feed, format)
+  const etag = `"${await sha256Hex(body)}"`
+  const lastModified = new Date(feed.updatedAt).toUTCString()
+  const headers = {
+    'ETag': etag,
+    'Last-Modified': lastModified,
+    'Cache-Control': `public, max-age=${FEED_MAX_AGE_SECONDS}`,
+  }
+
+  const ifNoneMatch = c.req.header('If-None-Match')
+  const ifModifiedSince = c.req.header('If-Modified-Since')
+  const notModified = ifNoneMatch
+    ? ifNoneMatch.split(',').map(tag => tag.trim().replace(/^W\//, '')).some(tag => tag === etag || tag === '*')
+    : !!ifModifiedSince && Date.parse(ifModifiedSince) >= Date.parse(lastModified)
+  if (notModified) {
+    return c.body(null, 304, headers)
+  }
+
+  return c.body(body, 200, { ...headers, 'Content-Type': FEED_CONTENT_TYPES[format] })
+}
+
+const toFeed = (entries: FeedEntry[], title: string, description: string, homeUrl: string, feedUrl: string): Feed => ({
+  title,
+  description,
+  homeUrl,
+  feedUrl,
+  updatedAt: entries[0]?.publishedAt || new Date(0).toISOString(),
+  entries,
+})
+
+/**
+ * Feed of the latest posts of the platform
+ * public access is allowed
+ * format is rss (default), atom or json
+ * return the feed
+ */
+app.get('/feed', async (c) => {
+  const format = c.req.query('format') || 'rss'
+  if (!isFeedFormat(format)) {
+    return c.json({ error: `format must be one of ${FEED_FORMATS.join(', ')}` }, { status: 400 })
+  }
+
+  try {
+    const entries = await getFeedEntries()
+    const feed = toFeed(entries, 'InkDAO', 'Latest posts published on InkDAO', getSiteUrl(), c.req.url)
+    return await feedResponse(c, feed, format)
+  } catch (error) {
+    console.error('Feed error:', error)
+    return c.json({ error: 'Failed to build feed' }, { status: 500 })
+  }
+})
+
+/**
+ * Feed of the latest posts of a creator
+ * public access is allowed
+ * path is /feed/<address>.rss, /feed/<address>.atom or /feed/<address>.json
+ * return the feed
+ */
+app.get('/feed/:file', async (c) => {
+  const match = c.req.param('file').match(/^(0x[a-fA-F0-9]{40})\.([a-z]+)$/)
+  if (!match) {
+    return c.json({ error: 'Feed path must be /feed/<address>.(rss|atom|json)' }, { status: 404 })
+  }
+  const address = match[1].toLowerCase()
+  const format = match[2]
+  if (!isFeedFormat(format)) {
+    return c.json({ error: `format must be one of ${FEED_FORMATS.join(', ')}` }, { status: 404 })
+  }
+
+  try {
+    const entries = await getFeedEntries(address)
+    const feed = toFeed(entries, `InkDAO - ${address}`, `Latest posts by ${address} on InkDAO`, `${getSiteUrl()}/profile/${address}`, c.req.url)
+    return await feedResponse(c, feed, format)
+  } catch (error) {
+    console.error('Feed error:', error)
+    return c.json({ error: 'Failed to build feed' }, { status: 500 })
+  }
+})
+
+export default app.fetch
+export const config = {
+  path: ["/feed", "/feed/*"]
+}
@@ -1,79 +1,279 @@
-import { Hono } from 'hono'
+import { Hono, type Context } from 'hono'
 import { ethers } from 'ethers'
 import { cors } from 'hono/cors'
 import { marketplace_abi } from '../abis/marketPlace.ts'
 import { provider } from '../utils/provider.ts'
-import { deleteFile, getFileByCid, createFile } from '../utils/pinata.ts'
-import { verifyJWT, getPinataConfig, corsOptions, getMarketplaceAddress } from '../utils/shared.ts'
-import { verifyTypedData } from "viem";
-
-const app = new Hono()
+import { deleteFile, getFileByCid, createFile, archiveFile, listRevisions, getRevisionByCid, pruneRevisions, getDraftHead, getFileByPostCid, getFileContent, getFileDocument, getContentField } from '../utils/drafts.ts'
+import { corsOptions, getMarketplaceAddress } from '../utils/shared.ts'
+import { getContentStore, type StoredFile } from '../utils/storage.ts'
+import { encryptContent, deleteContentKey, importReaderKey, wrapContentKey } from '../utils/encryption.ts'
+import { parseDocument, createPreview } from '../utils/document.ts'
+import { renderDocument, isRenderFormat, RENDER_FORMATS, RENDER_CONTENT_TYPES } from '../utils/render.ts'
+import { parseTagQuery, searchFilesByTags } from '../utils/tagSearch.ts'
+import { requireAuth, type AuthEnv } from '../utils/middleware.ts'
+import { verifyTypedDataAction, hashContent } from '../utils/typedData.ts'
+import { getKeyValueStore } from '../utils/kv.ts'
+import { mergeJson } from '../utils/merge.ts'
+import { getDraftAccess, inviteCollaborator, acceptInvitation, removeCollaborator, removeCollaborators, listCollaborators, listCollaborations, getCollaborator, COLLABORATOR_ROLES, type CollaboratorRole } from '../utils/collaborators.ts'
+
+const app = new Hono<AuthEnv>()
 
 app.use('*', cors(corsOptions))
 
+/**
+ * Respond with the file data as JSON, or with its document rendered in the requested format
+ * a document that does not validate cannot be rendered, 422
+ */
+const contentResponse = (c: Context<AuthEnv>, data: unknown, format: string | undefined) => {
+  if (!format || format === 'json') {
+    return c.json(data ?? null, { status: 200 })
+  }
+  if (!isRenderFormat(format)) {
+    return c.json({ error: `format must be json, ${RENDER_FORMATS.join(', ')}` }, { status: 400 })
+  }
+  const parsed = parseDocument(getContentField(data))
+  if (!parsed.ok) {
+    return c.json({ error: 'File content is not a valid document', details: parsed.errors }, { status: 422 })
+  }
+  return c.body(renderDocument(parsed.document, format), 200, { 'Content-Type': RENDER_CONTENT_TYPES[format] })
+}
+
 /**
  * Get file by CID
- * jwt token is required for this request.
+ * jwt token with read:drafts scope is required for this request.
  * file should not be published on chain
- * file should be owned by the user
- * return the file data
+ * file should be owned by the user, or shared with the user as viewer or editor
+ * return the file data, or with format=html|markdown|text the rendered document
+ */
+app.get('/fileByCid', requireAuth('read:drafts'), async (c) => {
+  const cid = c.req.query('cid')
+  const access = await getDraftAccess(cid as string, c.get('address'))
+  if (!access || access.file.keyvalues.status !== "pending") {
+    return c.json({ error: 'No file found' }, { status: 404 })
+  }
+  const file = access.file
+  
+  const data = await getFileContent(file)
+
+  return contentResponse(c, data, c.req.query('format'))
+})
+
+/**
+ * Get the revisions of a draft
+ * jwt token with read:drafts scope is required for this request.
+ * cid is the cid of the current draft
+ * return the current draft and its revisions, newest first
  */
-app.get('/fileByCid', async (c) => {
-  const authHeader = c.req.header('Authorization')
-  if (!authHeader || !authHeader.startsWith('Bearer ')) {
-    return c.json({ error: 'JWT token required' }, { status: 401 })
+app.get('/revisionsByCid', requireAuth('read:drafts'), async (c) => {
+  const cid = c.req.query('cid')
+  const file = await getFileByCid(cid as string, c.get('address'))
+  if (!file) {
+    return c.json({ error: 'No file found' }, { status: 404 })
   }
 
-  const token = authHeader.substring(7)
-  const jwtPayload = await verifyJWT(token)
-  if (!jwtPayload) {
-    return c.json({ error: 'Invalid or expired token' }, { status: 401 })
+  try {
+    const revisions = await listRevisions(file.group_id as string, c.get('address'))
+
+    return c.json({
+      revisions: revisions.map(revision => ({
+        id: revision.id,
+        cid: revision.cid,
+        size: revision.size,
+        createdAt: revision.created_at,
+        current: revision.keyvalues.status === "pending",
+      })),
+      count: revisions.length,
+    }, { status: 200 })
+  } catch (error) {
+    console.error('Revision list error:', error)
+    return c.json({ error: 'Failed to list revisions' }, { status: 500 })
   }
+})
 
+/**
+ * Get a revision of a draft
+ * jwt token with read:drafts scope is required for this request.
+ * cid is the cid of the current draft, revisionCid the revision to fetch
+ * return the revision data
+ */
+app.get('/revisionByCid', requireAuth('read:drafts'), async (c) => {
   const cid = c.req.query('cid')
-  const file = await getFileByCid(cid as string, jwtPayload.address.toLowerCase())
+  const revisionCid = c.req.query('revisionCid')
+  if (!revisionCid) {
+    return c.json({ error: 'revisionCid parameter is required' }, { status: 400 })
+  }
+
+  const file = await getFileByCid(cid as string, c.get('address'))
   if (!file) {
     return c.json({ error: 'No file found' }, { status: 404 })
   }
-  
-  const { pinata } = getPinataConfig()
-  const { data } = await pinata.gateways.private.get(file.cid)
 
-  return c.json(data, { status: 200 })
+  const revision = await getRevisionByCid(file.group_id as string, revisionCid, c.get('address'))
+  if (!revision) {
+    return c.json({ error: 'No revision found' }, { status: 404 })
+  }
+
+  const data = await getFileContent(revision)
+
+  return c.json(data ?? null, { status: 200 })
 })
 
 /**
- * Get files by tags
- * public access is allowed
- * return the files meta data
+ * Get the collaborators of a draft
+ * jwt token with read:drafts scope is required for this request.
+ * the owner and every collaborator of the draft can list them
+ * return the owner and the collaborators with their role and status
  */
-app.get('/filesByTags', async (c) => {
-  const { pinata } = getPinataConfig()
+app.get('/collaborators', requireAuth('read:drafts'), async (c) => {
+  const cid = c.req.query('cid')
+  const access = await getDraftAccess(cid as string, c.get('address'))
+  if (!access) {
+    return c.json({ error: 'No file found' }, { status: 404 })
+  }
 
-  const tags = c.req.query('tags') // Comma-separated list of tags
-  
-  if (!tags) {
-    return c.json({ error: 'Tags parameter is required. Use comma-separated values (e.g., ?tags=tag1,tag2,tag3)' }, { status: 400 })
+  const collaborators = await listCollaborators(access.file.group_id as string)
+
+  return c.json({
+    owner: access.owner,
+    role: access.role,
+    collaborators,
+  }, { status: 200 })
+})
+
+/**
+ * Get the drafts shared with the user, including pending invitations
+ * jwt token with read:drafts scope is required for this request.
+ * return the collaborations with the cid of the current draft
+ */
+app.get('/collaborations', requireAuth('read:drafts'), async (c) => {
+  const collaborations = await listCollaborations(c.get('address'))
+
+  const drafts = await Promise.all(collaborations.map(async (collaboration) => {
+    const head = await getDraftHead(collaboration.groupId, collaboration.owner)
+    return head ? { ...collaboration, cid: head.cid } : null
+  }))
+
+  return c.json({ collaborations: drafts.filter(draft => draft !== null) }, { status: 200 })
+})
+
+/**
+ * Invite a collaborator to a draft
+ * jwt token with write:drafts scope is required for this request.
+ * only the owner can invite, role is viewer or editor
+ * return the invitation
+ */
+app.post('/collaborators/invite', requireAuth('write:drafts'), async (c) => {
+  const body = await c.req.json()
+  const invitee = (body.address as string | undefined)?.toLowerCase()
+  const role = body.role as CollaboratorRole
+
+  if (!invitee || !/^0x[a-f0-9]{40}$/.test(invitee)) {
+    return c.json({ error: 'A valid address is required' }, { status: 400 })
+  }
+  if (!COLLABORATOR_ROLES.includes(role)) {
+    return c.json({ error: `role must be one of ${COLLABORATOR_ROLES.join(', ')}` }, { status: 400 })
   }
 
-  const tagArray = tags.split(',').map(tag => tag.trim()).filter(tag => tag.length > 0)
-  if (tagArray.length === 0) {
-    return c.json({ error: 'At least one valid tag is required' }, { status: 400 })
+  const file = await getFileByCid(c.req.query('cid') as string, c.get('address'))
+  if (!file) {
+    return c.json({ error: 'No file found' }, { status: 404 })
+  }
+  if (invitee === c.get('address')) {
+    return c.json({ error: 'The owner cannot be invited' }, { status: 400 })
   }
 
-  const keyvalues = tagArray.reduce((acc, tag) => {
-    acc[tag] = tag;
-    return acc;
-  }, {} as Record<string, string>);
-  
+  const existing = await getCollaborator(file.group_id as string, invitee)
+  if (existing && existing.status === 'active') {
+    return c.json({ error: 'Address is already a collaborator' }, { status: 409 })
+  }
+
+  const collaborator = await inviteCollaborator(file.group_id as string, c.get('address'), invitee, role)
+
+  return c.json({ collaborator }, { status: 200 })
+})
+
+/**
+ * Accept an invitation to a draft
+ * jwt token with write:drafts scope is required for this request.
+ * the invitation is for the token address
+ * return the collaborator
+ */
+app.post('/collaborators/accept', requireAuth('write:drafts'), async (c) => {
+  const body = await c.req.json()
+  const groupId = body.groupId as string | undefined
+  if (!groupId) {
+    return c.json({ error: 'groupId is required' }, { status: 400 })
+  }
+
+  const collaborator = await acceptInvitation(groupId, c.get('address'))
+  if (!collaborator) {
+    return c.json({ error: 'No invitation found' }, { status: 404 })
+  }
+
+  return c.json({ collaborator }, { status: 200 })
+})
+
+/**
+ * Remove a collaborator from a draft
+ * jwt token with write:drafts scope is required for this request.
+ * the owner can remove anyone, a collaborator can only remove themselves
+ * return success
+ */
+app.post('/collaborators/remove', requireAuth('write:drafts'), async (c) => {
+  const body = await c.req.json()
+  const collaboratorAddress = (body.address as string | undefined)?.toLowerCase()
+  if (!collaboratorAddress) {
+    return c.json({ error: 'address is required' }, { status: 400 })
+  }
+
+  const access = await getDraftAccess(c.req.query('cid') as string, c.get('address'))
+  if (!access) {
+    return c.json({ error: 'No file found' }, { status: 404 })
+  }
+  if (access.role !== 'owner' && collaboratorAddress !== c.get('address')) {
+    return c.json({ error: 'Only the owner can remove other collaborators' }, { status: 403 })
+  }
+
+  const removed = await removeCollaborator(access.file.group_id as string, collaboratorAddress)
+  if (!removed) {
+    return c.json({ error: 'Collaborator not found' }, { status: 404 })
+  }
+
+  return c.json({ success: true }, { status: 200 })
+})
+
+/**
+ * Get published files by tags
+ * public access is allowed
+ * - tags: files with all of the tags, any: files with at least one of them, not: files with none of them
+ * - sort: newest (default) or oldest, by publish date
+ * - limit: page size, 9 by default, at most 50
+ * - next_page_token: the token of the previous page, it carries the original query
+ * return the files meta data
+ */
+app.get('/filesByTags', async (c) => {
+  const parsed = parseTagQuery({
+    tags: c.req.query('tags'),
+    any: c.req.query('any'),
+    not: c.req.query('not'),
+    sort: c.req.query('sort'),
+    limit: c.req.query('limit'),
+    next_page_token: c.req.query('next_page_token'),
+  })
+  if (!parsed.ok) {
+    return c.json({ error: parsed.error }, { status: 400 })
+  }
+  const { query, after } = parsed
+
   try {
-    const files = await pinata.files.private.list().keyvalues(keyvalues).limit(9)
+    const { files, nextPageToken } = await searchFilesByTags(query, after)
 
     return c.json({ 
-      files: files.files || [],
-      count: files.files.length || 0,
-      tags: tagArray,
-      next_page_token: files.next_page_token || null
+      files,
+      count: files.length,
+      tags: query.all,
+      query,
+      next_page_token: nextPageToken
     }, { status: 200 })
   } catch (error) {
     console.error('Error filtering files by multiple tags:', error)
@@ -84,9 +284,10 @@ app.get('/filesByTags', async (c) => {
 /**
  * Create a group and upload the file,first time draft is saved.
  * no jwt token is required for this request.
- * double attack is prevented by the groupName, 
- * - signature can't be used after 10 seconds
- * - it will revert withing 10 seconds if the groupName already exists.
+ * double attack is prevented by the server-issued nonce, it can only be consumed once.
+ * the signed CreateFile message binds to the content hash.
+ * the message can be signed by the wallet or by a session key authorized for CreateFile.
+ * content must be a valid document (see utils/document.ts), it is stored sanitized.
  * return the upload data
  */
 app.post('/create/group', async (c) => {
@@ -96,36 +297,29 @@ app.post('/create/group', async (c) => {
   const signature = body.signature
   const content = body.content || "Initial Empty Json"
 
-  const verified = await verifyTypedData({
-    address: address as `0x${string}`,
-    domain: salt.domain,
-    types: salt.types,
-    primaryType: 'CreateFile',
-    message: salt.message,
-    signature: signature as `0x${string}`,
-  });
-  if (!verified) {
-    return c.json({ error: 'Authentication failed' }, { status: 401 })
+  const parsed = parseDocument(content)
+  if (!parsed.ok) {
+    return c.json({ error: 'Invalid document', details: parsed.errors }, { status: 400 })
   }
 
-  if (Date.now() / 1000 - parseInt(salt.message.timestamp) > 60) {
-    return c.json({ error: 'Timestamp expired' }, { status: 401 })
+  const result = await verifyTypedDataAction('CreateFile', address, salt?.message, signature, {
+    contentHash: hashContent(content),
+  }, body.sessionKey)
+  if (!result.ok) {
+    return c.json({ error: result.error }, { status: result.status })
   }
   
-  const { pinata } = getPinataConfig()
+  const store = getContentStore()
 
   const groupName = `${salt.message.nonce}`
-  const group = await pinata.groups.private.create({
-    name: groupName,
-  })
+  const group = await store.createGroup(groupName)
 
 
   try {
-    let updatedUpload = await pinata.upload.private
-    .json({
-      content: content,
+    let updatedUpload = await store.uploadJson(await encryptContent(group.id, {
+      content: parsed.document,
       lang: "ts"
-    })
+    }))
 
     const isSuccess = await createFile(updatedUpload.id, updatedUpload.cid, groupName, group.id, address);
     if (!isSuccess) {
@@ -139,13 +333,45 @@ app.post('/create/group', async (c) => {
   }
 })
 
+// A crashed save cannot block a draft for more than 30 seconds
+const DRAFT_LOCK_TTL_SECONDS = 30
+
 /**
- * Update the file, everytime the draft is saved. deleting the older file and creating the new one.
+ * Body of the 409 returned when a save is based on a stale cid
+ * - headCid and content of the current draft
+ * - with merge, a three-way merge of the saved content onto the current draft
+ */
+const staleDraftResponse = async (base: StoredFile, head: StoredFile, content: unknown, merge: boolean) => {
+  const headContent = getContentField(await getFileContent(head))
+
+  const response: Record<string, unknown> = {
+    error: 'Draft has changed since the base cid',
+    baseCid: base.cid,
+    headCid: head.cid,
+    content: headContent ?? null,
+  }
+
+  if (merge) {
+    const baseContent = getContentField(await getFileContent(base))
+    const { merged, conflicts } = mergeJson(baseContent, content, headContent)
+    response.merged = merged
+    response.conflicts = conflicts
+  }
+
+  return response
+}
+
+/**
+ * Update the file, everytime the draft is saved. the older file is kept as a revision and the new one is created.
  * no jwt token is required for this request.
- * double attack is prevented by the file name, 
- * - it will revert if the file name already exists.
+ * double attack is prevented by the server-issued nonce, it can only be consumed once.
+ * the signed UpdateFile message binds to the cid and the content hash.
+ * the message can be signed by the wallet or by a session key authorized for UpdateFile.
+ * content must be a valid document (see utils/document.ts), it is stored sanitized.
+ * cid is the base cid the content was edited from, if it is no longer the current draft
+ * return 409 with the current cid and content, and a three-way merge when merge is true.
  * file should not be published on chain
- * file should be owned by the user
+ * file should be owned by the user, or shared with the user as editor
  * return the upload data
  */
 app.post('/update/file', async (c) => {
@@ -153,56 +379,84 @@ app.post('/update/file', async (c) => {
   const salt = body.salt
   const address = body.address
   const signature = body.signature
-  const content = body.content
+  const cid = c.req.query('cid')
 
-  const verified = await verifyTypedData({
-    address: address as `0x${string}`,
-    domain: salt.domain,
-    types: salt.types,
-    primaryType: 'UpdateFile',
-    message: salt.message,
-    signature: signature as `0x${string}`,
-  });
-  if (!verified) {
-    return c.json({ error: 'Authentication failed' }, { status: 401 })
+  const parsed = parseDocument(body.content)
+  if (!parsed.ok) {
+    return c.json({ error: 'Invalid document', details: parsed.errors }, { status: 400 })
   }
-
-  if (Date.now() / 1000 - parseInt(salt.message.timestamp) > 60) {
-    return c.json({ error: 'Timestamp expired' }, { status: 401 })
+  const content = parsed.document
+
+  const result = await verifyTypedDataAction('UpdateFile', address, salt?.message, signature, {
+    cid: cid as string,
+    contentHash: hashContent(body.content),
+  }, body.sessionKey)
+  if (!result.ok) {
+    return c.json({ error: result.error }, { status: result.status })
   }
 
-  const { pinata } = getPinataConfig()
-
   try {
-    const cid = c.req.query('cid')
-    const file = await getFileByCid(cid as string, address.toLowerCase())
-    if (!file) {
+    const access = await getDraftAccess(cid as string, address)
+    if (!access) {
       return c.json({ error: 'No file found' }, { status: 404 })
     }
+    if (access.role === 'viewer') {
+      return c.json({ error: 'Viewers cannot edit this draft' }, { status: 403 })
+    }
+
+    // Editors save on behalf of the owner, the draft stays owned by the owner
+    const { file, owner } = access
 
-    if (file.name === `${salt.message.nonce}`) {
-      return c.json({ error: 'File already updated' }, { status: 400 })
+    // The base cid is no longer the current draft, another save landed first
+    if (file.keyvalues.status === "revision") {
+      const head = await getDraftHead(file.group_id as string, owner)
+      if (!head) {
+        return c.json({ error: 'No file found' }, { status: 404 })
+      }
+      return c.json(await staleDraftResponse(file, head, content, body.merge === true), { status: 409 })
     }
 
-    await deleteFile(file.id)
+    // Concurrent saves from the same base are serialized, the later one gets a 409
+    const locks = getKeyValueStore('draft-locks')
+    const lockKey = file.group_id as string
+    if (!await locks.create(lockKey, file.cid, DRAFT_LOCK_TTL_SECONDS)) {
+      return c.json({ error: 'Another save of this draft is in progress', headCid: file.cid }, { status: 409 })
+    }
 
     try {
+      // A save may have completed between the lookup and taking the lock
+      const head = await getDraftHead(file.group_id as string, owner)
+      if (head && head.id !== file.id) {
+        return c.json(await staleDraftResponse(file, head, content, body.merge === true), { status: 409 })
+      }
+
       const fileName = `${salt.message.nonce}`
-      let upload = await pinata.upload.private
-      .json({
+      let upload = await getContentStore().uploadJson(await encryptContent(file.group_id as string, {
         content: content,
         lang: "ts"
-      })
+      }))
 
-      const isSuccess = await createFile(upload.id, upload.cid, fileName, file.group_id, address);
+      const isSuccess = await createFile(upload.id, upload.cid, fileName, file.group_id, owner);
       if (!isSuccess) {
         await deleteFile(upload.id)
+        return c.json({ upload }, { status: 200 })
       }
 
+      // The previous save stays in the group as a revision, the new upload is removed if it cannot be archived
+      try {
+        await archiveFile(file.id)
+      } catch (error) {
+        await deleteFile(upload.id)
+        throw error
+      }
+      await pruneRevisions(file.group_id as string, owner)
+
       return c.json({ upload }, { status: 200 })
     } catch (error) {
       console.error('File upload error:', error)
       return c.json({ error: 'Failed to upload file' }, { status: 500 })
+    } finally {
+      await locks.delete(lockKey)
     }
   } catch (error) {
     console.error('File update error:', error)
@@ -211,146 +465,102 @@ app.post('/update/file', async (c) => {
 })
 
 /**
- * Publish the file on chain.
- * - upload the thumbnail.png
+ * Restore a revision as the current draft, the current draft becomes a revision.
  * no jwt token is required for this request.
- * double attack is prevented by the file status.
- * file should not be owned by the user
+ * double attack is prevented by the server-issued nonce, it can only be consumed once.
+ * the signed RestoreRevision message binds to the cid and the revision cid.
  * file should not be published on chain
- * return the thumbnail cid
+ * file should be owned by the user
+ * return the restored revision
  */
-app.post('/publish/file', async (c) => {
-  try {
-    const formData = await c.req.formData()
-    const thumbnail = formData.get('file') as File // thumbnail.png
-    const saltString = formData.get('salt') as string
-    const salt = JSON.parse(saltString)
-    const address = formData.get('address') as string
-    const signature = formData.get('signature') as string
-    const hashtags = formData.get('hashtags') as string
-    const hashtagsArray = hashtags.split(',').map(tag => tag.trim().toLowerCase());
-
-    if (!thumbnail) {
-      return c.json({ error: 'File is required' }, { status: 400 })
-    }
-
-    const verified = await verifyTypedData({
-      address: address as `0x${string}`,
-      domain: salt.domain,
-      types: salt.types,
-      primaryType: 'PublishFile',
-      message: salt.message,
-      signature: signature as `0x${string}`,
-    });
-    if (!verified) {
-      return c.json({ error: 'Authentication failed' }, { status: 401 })
-    }
-  
-    if (Date.now() / 1000 - parseInt(salt.message.timestamp) > 60) {
-      return c.json({ error: 'Timestamp expired' }, { status: 401 })
-    }
+app.post('/restore/revision', async (c) => {
+  const body = await c.req.json()
+  const salt = body.salt
+  const address = body.address
+  const signature = body.signature
+  const cid = c.req.query('cid')
+  const revisionCid = c.req.query('revisionCid')
 
-    const { pinata } = getPinataConfig()
+  const result = await verifyTypedDataAction('RestoreRevision', address, salt?.message, signature, {
+    cid: cid as string,
+    revisionCid: revisionCid as string,
+  })
+  if (!result.ok) {
+    return c.json({ error: result.error }, { status: result.status })
+  }
 
-    const cid = c.req.query('cid')
-    const file = await getFileByCid(cid as string, address.toLowerCase())
-    if (!file) {
-      return c.json({ error: 'No file found' }, { status: 404 })
-    }
+  const file = await getFileByCid(cid as string, address.toLowerCase())
+  if (!file) {
+    return c.json({ error: 'No file found' }, { status: 404 })
+  }
 
-    const keyvalues = hashtagsArray.reduce((acc, tag) => {
-      acc[tag] = tag;
-      return acc;
-    }, {} as Record<string, string>);
+  const revision = await getRevisionByCid(file.group_id as string, revisionCid as string, address)
+  if (!revision) {
+    return c.json({ error: 'No revision found' }, { status: 404 })
+  }
 
-    await pinata.files.private.update({id: file.id,
+  try {
+    await archiveFile(file.id)
+    const restored = await getContentStore().updateFile(revision.id, {
       keyvalues: {
-        ...keyvalues,
-        publishedAt: new Date().toISOString(),
+        status: "pending",
+        restoredAt: new Date().toISOString(),
       }
     })
 
-    // Upload file with name "thumbnail.png"
-    const upload = await pinata.upload.public
-    .file(thumbnail)
-    .name('thumbnail.png')
-    .keyvalues({
-      group: file.group_id as string,
-    })
-
-    return c.json({ thumbnailCid: upload.cid }, { status: 200 })
+    return c.json({ restored }, { status: 200 })
   } catch (error) {
-    console.error('File upload error:', error)
-    return c.json({ error: 'Failed to upload file' }, { status: 500 })
+    console.error('Revision restore error:', error)
+    return c.json({ error: 'Failed to restore revision' }, { status: 500 })
   }
 })
 
 /**
  * Get the pending files by owner
- * jwt token is required for this request.
+ * jwt token with read:drafts scope is required for this request, the owner is the token address.
  * return the owner's files data which are not published on chain
  */
-app.get('/pendingFilesByOwner', async (c) => {
-  const authHeader = c.req.header('Authorization')
-  if (!authHeader || !authHeader.startsWith('Bearer ')) {
-    return c.json({ error: 'JWT token required' }, { status: 401 })
-  }
-
-  const token = authHeader.substring(7)
-  const jwtPayload = await verifyJWT(token)
-  if (!jwtPayload) {
-    return c.json({ error: 'Invalid or expired token' }, { status: 401 })
+app.get('/pendingFilesByOwner', requireAuth('read:drafts'), async (c) => {
+  const requestedOwner = c.get('address')
+  const owner = c.req.query('owner')?.toLowerCase()
+  if (owner && owner !== requestedOwner) {
+    return c.json({ error: 'Forbidden: owner does not match the authenticated address' }, { status: 403 })
   }
 
-  const requestedOwner = c.req.query('owner')?.toLowerCase()
-  if (!requestedOwner) {
-    return c.json({ error: 'Owner parameter is required' }, { status: 400 })
-  }
-
-  const { pinata } = getPinataConfig()
-
-  const files = await pinata.files.private.list().keyvalues({ owner: requestedOwner, status: "pending" }).limit(12)
+  const files = await getContentStore().listFiles({ keyvalues: { owner: requestedOwner, status: "pending" }, limit: 12 })
 
   return c.json(files, { status: 200 })
 })
 
 /**
  * Get the files by owner by next page token
- * jwt token is required for this request.
+ * jwt token with admin scope is required for this request.
+ * pages of /filesByTags are fetched from /filesByTags itself, this token is unfiltered.
  * return the files data by next page token
  */
-app.get('/filesByNextPageToken', async (c) => {
-  const { pinata } = getPinataConfig()
-
+app.get('/filesByNextPageToken', requireAuth('admin'), async (c) => {
   const nextPageToken = c.req.query('next_page_token')
-  const files = await pinata.files.private.list().pageToken(nextPageToken as string).limit(9);
+  const files = await getContentStore().listFiles({ pageToken: nextPageToken, limit: 9 });
 
   return c.json(files, { status: 200 })
 })
 
 /**
  * Get the file by asset address
- * jwt token is required for this request.
+ * jwt token with read:purchased scope is required for this request, the user is the token address.
  * return file only when
  * - if the user has the dXasset token
  * - if the user is the author of the dXasset token
- * return the file data
+ * post content is stored encrypted with a per-post data key
+ * - with publicKey (base64 SPKI of an RSA-OAEP SHA-256 key), return the encrypted content and the data key wrapped for that key
+ * - a publicKey that is not such a key returns 400
+ * - without publicKey, return the decrypted file data, or with format=html|markdown|text the rendered document
  */
-app.get('/fileByPostId', async (c) => {
-  const authHeader = c.req.header('Authorization')
-  if (!authHeader || !authHeader.startsWith('Bearer ')) {
-    return c.json({ error: 'JWT token required' }, { status: 401 })
-  }
-
-  const token = authHeader.substring(7)
-  const jwtPayload = await verifyJWT(token)
-  if (!jwtPayload) {
-    return c.json({ error: 'Invalid or expired token' }, { status: 401 })
-  }
-
-  const requestedUser = c.req.query('user')?.toLowerCase()
-  if (!requestedUser) {
-    return c.json({ error: 'user parameter is required' }, { status: 400 })
+app.get('/fileByPostId', requireAuth('read:purchased'), async (c) => {
+  const requestedUser = c.get('address')
+  const user = c.req.query('user')?.toLowerCase()
+  if (user && user !== requestedUser) {
+    return c.json({ error: 'Forbidden: user does not match the authenticated address' }, { status: 403 })
   }
 
   const postId = c.req.query('postId')
@@ -358,6 +568,12 @@ app.get('/fileByPostId', async (c) => {
     return c.json({ error: 'Post ID parameter is required' }, { status: 400 })
   }
 
+  const publicKey = c.req.query('publicKey')
+  const readerKey = publicKey ? await importReaderKey(publicKey) : null
+  if (publicKey && !readerKey) {
+    return c.json({ error: 'Invalid publicKey' }, { status: 400 })
+  }
+
   try {
     const marketplaceContract = new ethers.Contract(getMarketplaceAddress(), marketplace_abi, provider)
     const balance = await marketplaceContract.balanceOf(requestedUser, postId)
@@ -367,15 +583,23 @@ app.get('/fileByPostId', async (c) => {
       return c.json({ error: 'Unauthorized: Do not have post' }, { status: 404 })
     }
 
-    const postCid = postInfo.postCid
-  
-    const { pinata } = getPinataConfig()
-  
-    const { data } = await pinata.gateways.private.get(
-      postCid as string
-    )
+    const file = await getFileByPostCid(postInfo.postCid as string, author)
+    if (!file) {
+      return c.json({ error: 'No file found' }, { status: 404 })
+    }
+
+    if (readerKey) {
+      const { data: encrypted } = await getContentStore().getContent(file.cid)
+      const wrappedKey = await wrapContentKey(file.group_id as string, readerKey)
+      if (!wrappedKey) {
+        return c.json({ error: 'Post content is not encrypted' }, { status: 400 })
+      }
+      return c.json({ encrypted, wrappedKey }, { status: 200 })
+    }
+
+    const data = await getFileContent(file)
   
-    return c.json(data, { status: 200 })
+    return contentResponse(c, data, c.req.query('format'))
   } catch (error) {
     console.error('File fetch error:', error)
     return c.json({ error: 'Failed to fetch file' }, { status: 500 })
@@ -385,9 +609,11 @@ app.get('/fileByPostId', async (c) => {
 /**
  * Delete the file
  * no jwt token is required for this request.
- * double attack is prevented by the file name
+ * double attack is prevented by the server-issued nonce, it can only be consumed once.
+ * the signed DeleteFile message binds to the cid.
  * file should be owned by the user
  * file should not be published on chain
+ * the revisions, collaborators and invitations of the draft are removed with it
  * return the deleted file data
  */
 app.post('/delete/file', async (c) => {
@@ -403,20 +629,11 @@ app.post('/delete/file', async (c) => {
     return c.json({ error: 'File is published on chain' }, { status: 400 })
   }
 
-  const verified = await verifyTypedData({
-    address: address as `0x${string}`,
-    domain: salt.domain,
-    types: salt.types,
-    primaryType: 'DeleteFile',
-    message: salt.message,
-    signature: signature as `0x${string}`,
-  });
-  if (!verified) {
-    return c.json({ error: 'Authentication failed' }, { status: 401 })
-  }
-
-  if (Date.now() / 1000 - parseInt(salt.message.timestamp) > 60) {
-    return c.json({ error: 'Timestamp expired' }, { status: 401 })
+  const result = await verifyTypedDataAction('DeleteFile', address, salt?.message, signature, {
+    cid: cid as string,
+  })
+  if (!result.ok) {
+    return c.json({ error: result.error }, { status: result.status })
   }
 
   const file = await getFileByCid(cid as string, address.toLowerCase())
@@ -424,24 +641,66 @@ app.post('/delete/file', async (c) => {
     return c.json({ error: 'No file found' }, { status: 404 })
   }
 
-  if (file.name === `${salt.message.nonce}`) {
-    return c.json({ error: 'File already deleted' }, { status: 400 })
-  }
-
   const deletedFile = await deleteFile(file.id)
   if (deletedFile) {
+    // Revisions of a deleted draft are not kept
+    const revisions = await listRevisions(file.group_id as string, address)
+    await Promise.all(revisions.map(revision => deleteFile(revision.id)))
+    await removeCollaborators(file.group_id as string)
+    await deleteContentKey(file.group_id as string)
+
     return c.json({ deletedFile }, { status: 200 })
   }
 
   return c.json({ error: 'Failed to delete file' }, { status: 500 })
 })
 
+/**
+ * Get the free preview of a post
+ * public access is allowed
+ * no jwt token is required for this request.
+ * the preview was fixed when the post was published, posts published without one only show their title and summary
+ * return the preview document, or with format=html|markdown|text the rendered preview
+ */
+app.get('/previewByPostId', async (c) => {
+  const postId = c.req.query('postId')
+  if (!postId) {
+    return c.json({ error: 'Post ID parameter is required' }, { status: 400 })
+  }
+
+  try {
+    const marketplaceContract = new ethers.Contract(getMarketplaceAddress(), marketplace_abi, provider)
+    const postInfo = await marketplaceContract.postInfo(postId)
+
+    const file = await getFileByPostCid(postInfo.postCid as string, postInfo.author)
+    if (!file) {
+      return c.json({ error: 'No file found' }, { status: 404 })
+    }
+
+    const document = await getFileDocument(file)
+    if (!document) {
+      return c.json({ error: 'Post content is not a valid document' }, { status: 422 })
+    }
+    const previewLength = parseInt(file.keyvalues.previewBlocks || '0')
+
+    return contentResponse(c, {
+      postId,
+      previewBlocks: previewLength,
+      totalBlocks: document.blocks.filter(block => block.type !== 'previewBreak').length,
+      content: createPreview(document, previewLength),
+    }, c.req.query('format'))
+  } catch (error) {
+    console.error('Preview fetch error:', error)
+    return c.json({ error: 'Failed to fetch preview' }, { status: 500 })
+  }
+})
+
 /**
  * Get the file by address when the file is free
  * public access is allowed
  * no jwt token is required for this request.
  * no digital signature is required for this request.
- * return the file data
+ * return the file data, or with format=html|markdown|text the rendered document
  */
 app.get('/freeFileByPostId', async (c) => {
   const postId = c.req.query('postId')
@@ -456,28 +715,32 @@ app.get('/freeFileByPostId', async (c) => {
       return c.json({ error: 'File is not free' }, { status: 400 })
     }
   
-    const { pinata } = getPinataConfig()
-  
-    const { data } = await pinata.gateways.private.get(
-      postInfo.postCid as string
-    )
+    const file = await getFileByPostCid(postInfo.postCid as string, postInfo.author)
+    if (!file) {
+      return c.json({ error: 'No file found' }, { status: 404 })
+    }
+
+    const data = await getFileContent(file)
   
-    return c.json(data, { status: 200 })
+    return contentResponse(c, data, c.req.query('format'))
   } catch (error) {
     console.error('File fetch error:', error)
     return c.json({ error: 'Failed to fetch file' }, { status: 500 })
   }
 })
 
-app.get('/filesMetaData', async (c) => {
-  const { pinata } = getPinataConfig()
-  
+/**
+ * Get the files meta data, by cid or the latest files
+ * jwt token with admin scope is required for this request.
+ * return the files meta data
+ */
+app.get('/filesMetaData', requireAuth('admin'), async (c) => {
   const cid = c.req.query('cid')
   let files: any = []
   if (cid) {
-    files = await pinata.files.private.list().cid(cid as string)
+    files = await getContentStore().listFiles({ cid })
   } else {
-    files = await pinata.files.private.list().limit(9)
+    files = await getContentStore().listFiles({ limit: 9 })
   }
 
   return c.json(files, { status: 200 })
@@ -485,5 +748,5 @@ app.get('/filesMetaData', async (c) => {
 
 export default app.fetch
 export const config = {
-  path: ["/fileByCid", "/filesByTags", "/create/group", "/update/file", "/publish/file", "/pendingFilesByOwner", "/filesByNextPageToken", "/delete/file", "/fileByPostId", "/freeFileByPostId", "/filesMetaData"]
+  path: ["/fileByCid", "/filesByTags", "/create/group", "/update/file", "/pendingFilesByOwner", "/filesByNextPageToken", "/delete/file", "/fileByPostId", "/freeFileByPostId", "/filesMetaData", "/revisionsByCid", "/revisionByCid", "/restore/revision", "/collaborators", "/collaborations", "/collaborators/invite", "/collaborators/accept", "/collaborators/remove", "/previewByPostId"]
 }
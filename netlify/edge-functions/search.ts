@@ -0,0 +1,78 @@
+import { Hono } from 'hono'
+import { cors } from 'hono/cors'
+import { corsOptions } from '../utils/shared.ts'
+import { requireAuth, type AuthEnv } from '../utils/middleware.ts'
+import { reindexPosts, searchPosts, tokenize, MAX_SEARCH_RESULTS } from '../utils/search.ts'
+
+const app = new Hono<AuthEnv>()
+
+app.use('*', cors(corsOptions))
+
+/**
+ * Full-text search over the published posts
+ * public access is allowed
+ * - q: the search terms, every term must match a word, the last one may also be the start of a word
+ * - author: only posts by this address, tag: only posts with this hashtag
+ * - price: free or paid
+ * - limit: 10 by default, at most 50, offset: number of hits to skip
+ * paid posts match on their body but only their title and summary are returned
+ * return the ranked hits with highlights
+ */
+app.get('/search', async (c) => {
+  const q = c.req.query('q') || ''
+  if (tokenize(q).length === 0) {
+    return c.json({ error: 'q parameter is required' }, { status: 400 })
+  }
+
+  const price = c.req.query('price')
+  if (price && price !== 'free' && price !== 'paid') {
+    return c.json({ error: 'price must be free or paid' }, { status: 400 })
+  }
+
+  const limit = parseInt(c.req.query('limit') || '10')
+  const offset = parseInt(c.req.query('offset') || '0')
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_SEARCH_RESULTS) {
+    return c.json({ error: `limit must be between 1 and ${MAX_SEARCH_RESULTS}` }, { status: 400 })
+  }
+  if (!Number.isInteger(offset) || offset < 0) {
+    return c.json({ error: 'offset must be a non-negative integer' }, { status: 400 })
+  }
+
+  try {
+    const { hits, total } = await searchPosts({
+      q,
+      author: c.req.query('author'),
+      tag: c.req.query('tag'),
+      price: price as 'free' | 'paid' | undefined,
+      limit,
+      offset,
+    })
+
+    return c.json({ q, hits, total, count: hits.length }, { status: 200 })
+  } catch (error) {
+    console.error('Search error:', error)
+    return c.json({ error: 'Failed to search posts' }, { status: 500 })
+  }
+})
+
+/**
+ * Index the onchain posts again, one page per request
+ * jwt token with admin scope is required for this request
+ * posts published before the search index existed are added, the others are refreshed
+ * - next_page_token: the token returned by the previous request, the first page without it
+ * return the number of posts indexed, the failures and the token of the next page, null after the last one
+ */
+app.post('/admin/search/reindex', requireAuth('admin'), async (c) => {
+  try {
+    const { indexed, errors, nextPageToken } = await reindexPosts(c.req.query('next_page_token'))
+    return c.json({ indexed, errors, next_page_token: nextPageToken }, { status: 200 })
+  } catch (error) {
+    console.error('Reindex error:', error)
+    return c.json({ error: 'Failed to reindex posts' }, { status: 500 })
+  }
+})
+
+export default app.fetch
+export const config = {
+  path: ["/search", "/admin/search/reindex"]
+}
@@ -0,0 +1,83 @@
+import { Hono } from 'hono'
+import { cors } from 'hono/cors'
+import { corsOptions } from '../utils/shared.ts'
+import { requireAuth, type AuthEnv } from '../utils/middleware.ts'
+import { backfillTagCounts, listPopularTags, listTrendingTags } from '../utils/tags.ts'
+
+const app = new Hono<AuthEnv>()
+
+app.use('*', cors(corsOptions))
+
+const DEFAULT_TAGS_LIMIT = 20
+const MAX_TAGS_LIMIT = 100
+
+const parseLimit = (limit: string | undefined) => {
+  const value = limit ? parseInt(limit) : DEFAULT_TAGS_LIMIT
+  return /^\d+$/.test(limit || `${DEFAULT_TAGS_LIMIT}`) && value >= 1 && value <= MAX_TAGS_LIMIT ? value : null
+}
+
+/**
+ * Get the tags used by published posts, most used first
+ * public access is allowed
+ * - q: only the tags starting with it, for autocomplete ("#Web" matches web3)
+ * - limit: 20 by default, at most 100
+ * return the tags with their number of posts
+ */
+app.get('/tags', async (c) => {
+  const limit = parseLimit(c.req.query('limit'))
+  if (limit === null) {
+    return c.json({ error: `limit must be between 1 and ${MAX_TAGS_LIMIT}` }, { status: 400 })
+  }
+
+  try {
+    const tags = await listPopularTags(limit, c.req.query('q') || '')
+    return c.json({ tags, count: tags.length }, { status: 200 })
+  } catch (error) {
+    console.error('Error listing tags:', error)
+    return c.json({ error: 'Failed to list tags' }, { status: 500 })
+  }
+})
+
+/**
+ * Get the trending tags
+ * public access is allowed
+ * publishes and purchases of the last 7 days are counted, purchases weigh twice as much
+ * and the activity loses half of its weight every 2 days
+ * - limit: 20 by default, at most 100
+ * return the tags with their score and recent publishes and purchases
+ */
+app.get('/tags/trending', async (c) => {
+  const limit = parseLimit(c.req.query('limit'))
+  if (limit === null) {
+    return c.json({ error: `limit must be between 1 and ${MAX_TAGS_LIMIT}` }, { status: 400 })
+  }
+
+  try {
+    const tags = await listTrendingTags(limit)
+    return c.json({ tags, count: tags.length }, { status: 200 })
+  } catch (error) {
+    console.error('Error listing trending tags:', error)
+    return c.json({ error: 'Failed to list trending tags' }, { status: 500 })
+  }
+})
+
+/**
+ * Count the posts of every tag again from the onchain files
+ * jwt token with admin scope is required for this request
+ * posts published before the tag counts existed are counted, the trending activity is kept
+ * return the number of tags and posts counted
+ */
+app.post('/admin/tags/backfill', requireAuth('admin'), async (c) => {
+  try {
+    const result = await backfillTagCounts()
+    return c.json(result, { status: 200 })
+  } catch (error) {
+    console.error('Error backfilling tags:', error)
+    return c.json({ error: 'Failed to backfill tags' }, { status: 500 })
+  }
+})
+
+export default app.fetch
+export const config = {
+  path: ["/tags", "/tags/trending", "/admin/tags/backfill"]
+}
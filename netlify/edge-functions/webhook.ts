@@ -1,177 +1,97 @@
 import { Hono } from 'hono'
 import { cors } from 'hono/cors'
-import { getFileByCid } from '../utils/pinata.ts'
-import { decodeQuickNodeWebhookAssetData, getPinataConfig, decodeAlchemyWebhookAssetData, validateAlchemySignature, getAlchemySigningKey, validateQuickNodeSignature, getQuickNodeSecurityToken, corsOptions } from '../utils/shared.ts'
+import { corsOptions } from '../utils/shared.ts'
+import { extractChainEvents } from '../utils/chainEvents.ts'
+import { getWebhookAdapter } from '../utils/webhookAdapters.ts'
+import { processChainEvents, retryDueEvents } from '../utils/eventPipeline.ts'
+import { confirmPosts } from '../utils/confirmations.ts'
 
 const app = new Hono()
 
 app.use('*', cors(corsOptions))
 
+// Failed events retried at the end of a delivery, the rest waits for the next one
+const WEBHOOK_RETRY_LIMIT = 5
+
 /**
- * Webhook to update the file status to onchain
- * Secured with Alchemy signature validation
- * @see https://www.alchemy.com/docs/reference/notify-api-quickstart
+ * Webhook for the marketplace events, PostCreated updates the file status to confirming, then onchain once final
+ * - provider is the name of a webhook adapter, alchemy or quicknode
+ * - the adapter validates the provider signature and extracts every log of every receipt
+ * - the logs are decoded into chain events and run through the event pipeline
+ * - a marketplace log without its transaction hash, log index or block number rejects the delivery
+ * - PostCreated, PostSubscribed, PostPriceUpdated and Transfer update the stored file, the other events are ignored
+ * - every event is recorded in the event ledger, redeliveries are duplicates and failures are retried with a backoff
+ * - a removed log undoes its event, a post dropped by a reorg goes back to pending
+ * return the result of every event
  */
-app.post('/webhook/alchemy/publish', async (c) => {  
-    try {
-      // Get the signature from header
-      const signature = c.req.header('X-Alchemy-Signature')
-      if (!signature) {
-        console.error('❌ Missing X-Alchemy-Signature header')
-        return c.json({
-          success: false,
-          error: 'Missing signature header'
-        }, { status: 401 })
-      }
-  
-      // Get raw body text for signature validation
-      const rawBody = await c.req.text()
-      
-      // Validate signature
-      const signingKey = getAlchemySigningKey()
-      const isValid = await validateAlchemySignature(rawBody, signature, signingKey)
-      
-      if (!isValid) {
-        console.error('❌ Invalid Alchemy webhook signature')
-        return c.json({
-          success: false,
-          error: 'Invalid signature'
-        }, { status: 401 })
-      }
-  
-      // Parse the validated body
-      const body = JSON.parse(rawBody)
-      
-      const assetData = decodeAlchemyWebhookAssetData(body)
-      if (!assetData) {
-        return c.json({
-          success: false,
-          error: 'No asset data found'
-        }, { status: 400 })
-      }
-      console.log('✅ Authenticated webhook from Alchemy')
-      console.log('🔔 New Blockchain Event Received from Alchemy', assetData.postCid, assetData.author)
-      
-      const file = await getFileByCid(assetData.postCid, assetData.author.toLowerCase())
-      if (!file) {
-        // File is null - likely already marked as "onchain" by another webhook
-        // This is not an error, the intended outcome has already been achieved
-        console.log('ℹ️ File already processed by another webhook')
-        return c.json({
-          success: true,
-          message: "File already marked as onchain",
-          postCid: assetData.postCid || null,
-          timestamp: new Date().toISOString()
-        }, { status: 200 })
-      }
-  
-      const { pinata } = getPinataConfig()
-      await pinata.files.private.update({id: file.id,
-        keyvalues: {
-          status: "onchain",
-        }
-      })
-      
-      return c.json({
-        success: true,
-        message: "Webhook received successfully",
-        postCid: assetData.postCid || null,
-        timestamp: new Date().toISOString()
-      }, { status: 200 })
-    } catch (error) {
-      console.error('Error processing webhook:', error)
+app.post('/webhook/:provider/publish', async (c) => {
+  const adapter = getWebhookAdapter(c.req.param('provider'))
+  if (!adapter) {
+    return c.json({
+      success: false,
+      error: 'Unknown webhook provider'
+    }, { status: 404 })
+  }
+
+  try {
+    // Get raw body text for signature validation
+    const rawBody = await c.req.text()
+
+    const verification = await adapter.verify(c.req.raw.headers, rawBody)
+    if (!verification.ok) {
+      console.error(`❌ Rejected ${adapter.name} webhook:`, verification.error)
       return c.json({
         success: false,
-        error: error instanceof Error ? error.message : 'Unknown error'
-      }, { status: 400 })
+        error: verification.error
+      }, { status: 401 })
     }
-})
-  
-/**
- * Webhook to update the file status to onchain
- * Secured with QuickNode Streams signature validation
- * @see https://www.quicknode.com/guides/quicknode-products/streams/validating-incoming-streams-webhook-messages
- */
-app.post('/webhook/quicknode/publish', async (c) => {  
+    console.log(`✅ Authenticated webhook from ${adapter.name}`)
+
+    // Parse the validated body
+    const body = JSON.parse(rawBody)
+
+    const events = extractChainEvents(adapter, body)
+
+    // Every new block brings the confirming posts closer to finality, with or without marketplace events
     try {
-      // Get the required headers for signature validation
-      const nonce = c.req.header('X-QN-Nonce')
-      const timestamp = c.req.header('X-QN-Timestamp')
-      const signature = c.req.header('X-QN-Signature')
-      
-      if (!nonce || !timestamp || !signature) {
-        console.error('❌ Missing required QuickNode headers')
-        return c.json({
-          success: false,
-          error: 'Missing required headers (X-QN-Nonce, X-QN-Timestamp, X-QN-Signature)'
-        }, { status: 401 })
-      }
-  
-      // Get raw body text for signature validation
-      const rawBody = await c.req.text()
-      
-      // Validate signature using QuickNode's method: HMAC-SHA256(nonce + timestamp + payload)
-      const securityToken = getQuickNodeSecurityToken()
-      const isValid = await validateQuickNodeSignature(rawBody, nonce, timestamp, signature, securityToken)
-      
-      if (!isValid) {
-        console.error('❌ Invalid QuickNode webhook signature')
-        return c.json({
-          success: false,
-          error: 'Invalid signature'
-        }, { status: 401 })
-      }
-  
-      // Parse the validated body
-      const body = JSON.parse(rawBody)
-      
-      const assetData = decodeQuickNodeWebhookAssetData(body)
-      if (!assetData) {
-        return c.json({
-          success: false,
-          error: 'No asset data found'
-        }, { status: 400 })
-      }
-      console.log('✅ Authenticated webhook from QuickNode')
-      console.log('🔔 New Blockchain Event Received from QuickNode', assetData.postCid, assetData.postId)
-      
-      const file = await getFileByCid(assetData.postCid, assetData.author.toLowerCase())
-      if (!file) {
-        // File is null - likely already marked as "onchain" by another webhook
-        // This is not an error, the intended outcome has already been achieved
-        console.log('ℹ️ File already processed by another webhook')
-        return c.json({
-          success: true,
-          message: "File already marked as onchain",
-          postCid: assetData.postCid || null,
-          timestamp: new Date().toISOString()
-        }, { status: 200 })
-      }
-  
-      const { pinata } = getPinataConfig()
-      await pinata.files.private.update({id: file.id,
-        keyvalues: {
-          status: "onchain",
-        }
-      })
-      
-      return c.json({
-        success: true,
-        message: "Webhook received successfully",
-        postCid: assetData.postCid || null,
-        timestamp: new Date().toISOString()
-      }, { status: 200 })
+      await confirmPosts()
     } catch (error) {
-      console.error('Error processing webhook:', error)
+      console.error('Error confirming posts:', error)
+    }
+
+    if (events.length === 0) {
       return c.json({
         success: false,
-        error: error instanceof Error ? error.message : 'Unknown error'
+        error: 'No marketplace event found'
       }, { status: 400 })
     }
+
+    const results = await processChainEvents(events)
+
+    // Failed events are in the event ledger, each delivery also retries the ones that are due
+    try {
+      await retryDueEvents(WEBHOOK_RETRY_LIMIT)
+    } catch (error) {
+      console.error('Error retrying events:', error)
+    }
+
+    return c.json({
+      success: true,
+      message: "Webhook received successfully",
+      events: results,
+      timestamp: new Date().toISOString()
+    }, { status: 200 })
+  } catch (error) {
+    console.error('Error processing webhook:', error)
+    return c.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 400 })
+  }
 })
-  
+
 export default app.fetch
 
 export const config = {
   path: ["/webhook/alchemy/publish", "/webhook/quicknode/publish"]
-}
\ No newline at end of file
+}
@@ -0,0 +1,140 @@
+import { Hono } from 'hono'
+import { cors } from 'hono/cors'
+import type { ThumbnailVariant } from '../utils/images.ts'
+
+declare global {
+  var Deno: {
+    env: {
+      get(key: string): string | undefined
+    }
+  } | undefined
+}
+
+// Decoding and resizing a thumbnail takes seconds of CPU, far over the edge function budget, publishing runs on Node
+globalThis.Deno ??= { env: { get: (key: string) => process.env[key] } }
+
+const { corsOptions, getThumbnailMaxBytes } = await import('../utils/shared.ts')
+const { getFileByCid, getFileDocument } = await import('../utils/drafts.ts')
+const { getContentStore } = await import('../utils/storage.ts')
+const { validateThumbnail, createThumbnailVariants } = await import('../utils/images.ts')
+const { getPreviewLength } = await import('../utils/document.ts')
+const { normalizeTags } = await import('../utils/tags.ts')
+const { verifyTypedDataAction, hashBytes } = await import('../utils/typedData.ts')
+
+const app = new Hono()
+
+app.use('*', cors(corsOptions))
+
+/**
+ * Publish the file on chain.
+ * - validate the thumbnail, PNG or JPEG by its bytes, at most THUMBNAIL_MAX_BYTES, 200 to 8000 pixels per side and 4096x4096 in total
+ * - strip the thumbnail metadata and upload it with its card, social (1200x630) and avatar sizes
+ * - fix the free preview, up to the previewBreak block of the document or its first previewBlocks blocks
+ * - content that is not a valid document cannot be published, 422
+ * - normalize the hashtags, at most 10 of at most 32 characters, "#Web 3" is stored as web3
+ * no jwt token is required for this request.
+ * double attack is prevented by the server-issued nonce, it can only be consumed once.
+ * the signed PublishFile message binds to the cid, the thumbnail hash, the hashtags and previewBlocks.
+ * file should not be owned by the user
+ * file should not be published on chain
+ * return the thumbnail cid and the cid of every size
+ */
+app.post('/publish/file', async (c) => {
+  try {
+    const formData = await c.req.formData()
+    const thumbnail = formData.get('file') as File // thumbnail.png
+    const saltString = formData.get('salt') as string
+    const salt = JSON.parse(saltString)
+    const address = formData.get('address') as string
+    const signature = formData.get('signature') as string
+    const hashtags = (formData.get('hashtags') as string) || ''
+    const cid = c.req.query('cid')
+    const previewBlocks = (formData.get('previewBlocks') as string) || '0'
+
+    if (!/^\d+$/.test(previewBlocks)) {
+      return c.json({ error: 'previewBlocks must be a non-negative integer' }, { status: 400 })
+    }
+
+    const tags = normalizeTags(hashtags)
+    if (!tags.ok) {
+      return c.json({ error: tags.error }, { status: 400 })
+    }
+
+    if (!thumbnail || typeof thumbnail === 'string') {
+      return c.json({ error: 'File is required' }, { status: 400 })
+    }
+
+    const thumbnailBytes = new Uint8Array(await thumbnail.arrayBuffer())
+    const validation = validateThumbnail(thumbnailBytes, getThumbnailMaxBytes())
+    if (!validation.ok) {
+      return c.json({ error: validation.error }, { status: validation.status })
+    }
+
+    const result = await verifyTypedDataAction('PublishFile', address, salt?.message, signature, {
+      cid: cid as string,
+      thumbnailHash: hashBytes(thumbnailBytes),
+      hashtags,
+      previewBlocks,
+    })
+    if (!result.ok) {
+      return c.json({ error: result.error }, { status: result.status })
+    }
+
+    const store = getContentStore()
+
+    const file = await getFileByCid(cid as string, address.toLowerCase())
+    if (!file) {
+      return c.json({ error: 'No file found' }, { status: 404 })
+    }
+
+    // The post content is immutable once on chain, so is its preview
+    const document = await getFileDocument(file)
+    if (!document) {
+      return c.json({ error: 'File content is not a valid document' }, { status: 422 })
+    }
+    const previewLength = getPreviewLength(document, parseInt(previewBlocks))
+
+    let variants: Record<ThumbnailVariant, File>
+    try {
+      variants = await createThumbnailVariants(thumbnailBytes, validation.format)
+    } catch (error) {
+      console.error('Thumbnail decode error:', error)
+      return c.json({ error: 'Thumbnail image could not be decoded' }, { status: 422 })
+    }
+
+    const keyvalues = tags.tags.reduce((acc, tag) => {
+      acc[tag] = tag;
+      return acc;
+    }, {} as Record<string, string>);
+
+    await store.updateFile(file.id, {
+      keyvalues: {
+        ...keyvalues,
+        publishedAt: new Date().toISOString(),
+        previewBlocks: `${previewLength}`,
+      }
+    })
+
+    const thumbnails = {} as Record<ThumbnailVariant, string>
+    for (const [variant, variantFile] of Object.entries(variants)) {
+      const upload = await store.uploadPublicFile(variantFile, {
+        name: variantFile.name,
+        keyvalues: {
+          group: file.group_id as string,
+          variant,
+        },
+      })
+      thumbnails[variant as ThumbnailVariant] = upload.cid
+    }
+
+    return c.json({ thumbnailCid: thumbnails.original, thumbnails }, { status: 200 })
+  } catch (error) {
+    console.error('File upload error:', error)
+    return c.json({ error: 'Failed to upload file' }, { status: 500 })
+  }
+})
+
+export default app.fetch
+export const config = {
+  path: ["/publish/file"]
+}
@@ -0,0 +1,56 @@
+declare global {
+  var Deno: {
+    env: {
+      get(key: string): string | undefined
+    }
+  } | undefined
+}
+
+// Scheduled functions run on Node, the shared utils read their configuration through Deno.env like the edge functions
+globalThis.Deno ??= { env: { get: (key: string) => process.env[key] } }
+
+const { getReconcileConfig } = await import('../utils/shared.ts')
+const { reconcileDrafts } = await import('../utils/reconcile.ts')
+const { confirmPosts } = await import('../utils/confirmations.ts')
+const { retryDueEvents } = await import('../utils/eventPipeline.ts')
+
+// Failed chain events retried by one run
+const RETRY_LIMIT = 25
+
+/**
+ * Hourly reconciliation of the drafts with the marketplace contract, a page of them per run
+ * - pending drafts published on chain are marked onchain, for when both webhooks missed a post
+ * - orphaned groups, unpublished thumbnails and stale drafts are reported
+ * - confirming posts are checked on every run, dry run or not, quiet blocks bring no webhook to do it
+ * - due chain events are retried, unless RECONCILE_DRY_RUN is set
+ * the summary report is logged
+ */
+export default async () => {
+  const config = getReconcileConfig()
+
+  try {
+    console.log('Confirmations:', await confirmPosts())
+  } catch (error) {
+    console.error('Error confirming posts:', error)
+  }
+
+  const report = await reconcileDrafts(config)
+  console.log('🧾 Reconcile report:', JSON.stringify(report))
+
+  if (!config.dryRun) {
+    try {
+      console.log('Retried events:', (await retryDueEvents(RETRY_LIMIT)).length)
+    } catch (error) {
+      console.error('Error retrying events:', error)
+    }
+  }
+
+  return new Response(JSON.stringify(report), {
+    status: 200,
+    headers: { 'Content-Type': 'application/json' },
+  })
+}
+
+export const config = {
+  schedule: '@hourly'
+}
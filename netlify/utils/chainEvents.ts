@@ -0,0 +1,120 @@
+import { ethers } from 'ethers'
+import { marketplace_abi } from '../abis/marketPlace.ts'
+import { getChainId, getMarketplaceAddress } from './shared.ts'
+
+// Create interface for decoding blockchain events
+const iface = new ethers.Interface(marketplace_abi)
+
+/**
+ * A marketplace event, whichever provider delivered it
+ * (chainId, txHash, logIndex) identifies the event
+ */
+export interface ChainEvent {
+  provider: string
+  chainId: number
+  txHash: string
+  logIndex: number
+  blockNumber: number
+  /** Event name in the marketplace ABI, e.g. PostCreated */
+  name: string
+  /** Decoded arguments by name, uint values are bigints */
+  args: Record<string, unknown>
+  /** The log was dropped by a reorg, its effects must be undone */
+  removed: boolean
+}
+
+/**
+ * A log as found in a provider payload, numbers may be hex strings
+ * the identifiers are missing when the webhook query does not select them
+ */
+export interface RawLog {
+  /** Emitting contract, when the provider reports it */
+  address?: string
+  txHash?: string
+  logIndex?: number | string
+  blockNumber?: number | string
+  topics: string[]
+  data: string
+  removed?: boolean
+}
+
+export type VerifyResult =
+  | { ok: true }
+  | { ok: false, error: string }
+
+/**
+ * Adapter of a webhook provider, the rest of the pipeline is provider agnostic
+ * - verify: authenticate the request from its headers and raw body
+ * - extractLogs: every log of the payload
+ */
+export interface WebhookAdapter {
+  name: string
+  verify(headers: Headers, rawBody: string): Promise<VerifyResult>
+  extractLogs(body: any): RawLog[]
+}
+
+const toNumber = (value: number | string) => {
+  return typeof value === 'number' ? value : Number(BigInt(value))
+}
+
+const parseLog = (log: RawLog) => {
+  try {
+    return iface.parseLog({
+      topics: log.topics,
+      data: log.data
+    })
+  } catch {
+    // Skip logs that don't match our ABI
+    return null
+  }
+}
+
+/**
+ * Decode a log with the marketplace ABI
+ * @returns null when the log is not a marketplace event
+ * @throws when a marketplace event lacks its transaction hash, log index or block number
+ */
+export const decodeLog = (provider: string, log: RawLog): ChainEvent | null => {
+  // Other contracts can emit events with the same signature, e.g. Transfer
+  if (log.address && log.address.toLowerCase() !== getMarketplaceAddress().toLowerCase()) {
+    return null
+  }
+  const decodedEvent = parseLog(log)
+  if (!decodedEvent) {
+    return null
+  }
+
+  // The event id is built from them, defaults would make every event a duplicate of the first one
+  const { txHash, logIndex, blockNumber } = log
+  if (!txHash || logIndex === undefined || logIndex === null || logIndex === '' || !blockNumber) {
+    throw new Error(`${decodedEvent.name} log without transaction hash, log index or block number`)
+  }
+
+  const args: Record<string, unknown> = {}
+  decodedEvent.fragment.inputs.forEach((input, index) => {
+    args[input.name] = decodedEvent.args[index]
+  })
+
+  return {
+    provider,
+    chainId: getChainId(),
+    txHash: txHash.toLowerCase(),
+    logIndex: toNumber(logIndex),
+    blockNumber: toNumber(blockNumber),
+    name: decodedEvent.name,
+    args,
+    removed: log.removed === true,
+  }
+}
+
+/**
+ * Normalize the payload of a provider into marketplace events, in chain order
+ * @throws when a marketplace log cannot be identified, the delivery is rejected
+ */
+export const extractChainEvents = (adapter: WebhookAdapter, body: any) => {
+  return adapter.extractLogs(body)
+    .map(log => decodeLog(adapter.name, log))
+    .filter((event): event is ChainEvent => event !== null)
+    // A removed log is undone before the log that replaces it in the new block
+    .sort((a, b) => a.blockNumber - b.blockNumber || Number(b.removed) - Number(a.removed) || a.logIndex - b.logIndex)
+}
@@ -0,0 +1,138 @@
+import { getKeyValueStore } from './kv.ts'
+import { getContentStore, type StoredFile } from './storage.ts'
+
+export type CollaboratorRole = 'viewer' | 'editor'
+export type DraftRole = CollaboratorRole | 'owner'
+
+export const COLLABORATOR_ROLES: CollaboratorRole[] = ['viewer', 'editor']
+
+export interface Collaborator {
+  groupId: string
+  owner: string
+  address: string
+  role: CollaboratorRole
+  status: 'invited' | 'active'
+  invitedAt: string
+  acceptedAt: string | null
+}
+
+export interface DraftAccess {
+  file: StoredFile
+  owner: string
+  role: DraftRole
+}
+
+const getCollaboratorStore = () => getKeyValueStore('collaborators')
+
+// Records are indexed both by draft group and by collaborator address
+const groupKey = (groupId: string, address: string) => `group:${groupId}:${address.toLowerCase()}`
+const memberKey = (address: string, groupId: string) => `member:${address.toLowerCase()}:${groupId}`
+
+const saveCollaborator = async (collaborator: Collaborator) => {
+  const store = getCollaboratorStore()
+  await store.set(groupKey(collaborator.groupId, collaborator.address), collaborator)
+  await store.set(memberKey(collaborator.address, collaborator.groupId), collaborator)
+}
+
+export const getCollaborator = async (groupId: string, address: string) => {
+  return await getCollaboratorStore().get<Collaborator>(groupKey(groupId, address))
+}
+
+export const inviteCollaborator = async (groupId: string, owner: string, address: string, role: CollaboratorRole) => {
+  const collaborator: Collaborator = {
+    groupId,
+    owner: owner.toLowerCase(),
+    address: address.toLowerCase(),
+    role,
+    status: 'invited',
+    invitedAt: new Date().toISOString(),
+    acceptedAt: null,
+  }
+  await saveCollaborator(collaborator)
+  return collaborator
+}
+
+/**
+ * @returns the accepted collaborator, or null if the address was not invited
+ */
+export const acceptInvitation = async (groupId: string, address: string) => {
+  const collaborator = await getCollaborator(groupId, address)
+  if (!collaborator) {
+    return null
+  }
+  if (collaborator.status === 'active') {
+    return collaborator
+  }
+
+  const accepted: Collaborator = { ...collaborator, status: 'active', acceptedAt: new Date().toISOString() }
+  await saveCollaborator(accepted)
+  return accepted
+}
+
+/**
+ * @returns false if the address is not a collaborator of the draft
+ */
+export const removeCollaborator = async (groupId: string, address: string) => {
+  const store = getCollaboratorStore()
+  if (!await getCollaborator(groupId, address)) {
+    return false
+  }
+  await store.delete(groupKey(groupId, address))
+  await store.delete(memberKey(address, groupId))
+  return true
+}
+
+/**
+ * Remove every collaborator and invitation of a deleted draft
+ */
+export const removeCollaborators = async (groupId: string) => {
+  const store = getCollaboratorStore()
+  const keys = await store.list(`group:${groupId}:`)
+  await Promise.all(keys.map(async key => {
+    const address = key.slice(`group:${groupId}:`.length)
+    await store.delete(groupKey(groupId, address))
+    await store.delete(memberKey(address, groupId))
+  }))
+}
+
+const listByPrefix = async (prefix: string) => {
+  const store = getCollaboratorStore()
+  const keys = await store.list(prefix)
+  const collaborators = await Promise.all(keys.map(key => store.get<Collaborator>(key)))
+  return collaborators.filter((collaborator): collaborator is Collaborator => collaborator !== null)
+}
+
+export const listCollaborators = (groupId: string) => listByPrefix(`group:${groupId}:`)
+
+export const listCollaborations = (address: string) => listByPrefix(`member:${address.toLowerCase()}:`)
+
+/**
+ * Resolve the role of an address on the draft with the given cid
+ * the cid may be the current draft or one of its revisions. Identical content gives
+ * drafts of different owners the same cid, so every draft with the cid is considered.
+ * @returns the draft file, its owner and the role of the address, or null without access
+ */
+export const getDraftAccess = async (cid: string, address: string): Promise<DraftAccess | null> => {
+  if (!cid) {
+    return null
+  }
+
+  const response = await getContentStore().listFiles({ cid })
+  const candidates = response.files
+    .filter((file: StoredFile) => file.group_id && (file.keyvalues.status === "pending" || file.keyvalues.status === "revision"))
+    .sort((a: StoredFile, b: StoredFile) => (a.keyvalues.status === "pending" ? 0 : 1) - (b.keyvalues.status === "pending" ? 0 : 1))
+
+  for (const file of candidates as StoredFile[]) {
+    const owner = file.keyvalues.owner
+    if (owner === address.toLowerCase()) {
+      return { file, owner, role: 'owner' }
+    }
+
+    const collaborator = await getCollaborator(file.group_id as string, address)
+    if (collaborator && collaborator.status === 'active') {
+      return { file, owner, role: collaborator.role }
+    }
+  }
+
+  return null
+}
@@ -0,0 +1,173 @@
+import { ethers } from 'ethers'
+import { marketplace_abi } from '../abis/marketPlace.ts'
+import { provider } from './provider.ts'
+import { getConfirmationPolicy, getMarketplaceAddress } from './shared.ts'
+import { getContentStore, type StoredFile } from './storage.ts'
+import { getKeyValueStore } from './kv.ts'
+import { getSearchIndex, indexPublishedPost } from './search.ts'
+import { getFileTags, recordTagActivity, removeTagPost } from './tags.ts'
+
+export type ConfirmationStatus = 'onchain' | 'confirming' | 'pending'
+
+// A crashed transition releases its file after this delay
+const CLAIM_TTL_SECONDS = 120
+
+const getClaimStore = () => getKeyValueStore('confirmations')
+
+/**
+ * Run a status transition of a file once, both webhooks and the sweeps may reach the same file together
+ * the file is read again once claimed, a previous run may have moved it already
+ * @param status - Status the file must still have
+ * @returns The result of the transition, null when another run holds the file or its status changed
+ */
+export async function claimFile<T>(file: StoredFile, status: string, transition: (file: StoredFile) => Promise<T>): Promise<T | null> {
+  const store = getClaimStore()
+  if (!await store.create(`claim:${file.id}`, true, CLAIM_TTL_SECONDS)) {
+    return null
+  }
+
+  try {
+    const response = await getContentStore().listFiles({ cid: file.cid })
+    const current = response.files.find(candidate => candidate.id === file.id)
+    if (!current || current.keyvalues.status !== status) {
+      return null
+    }
+    return await transition(current)
+  } finally {
+    await store.delete(`claim:${file.id}`)
+  }
+}
+
+/**
+ * The file of a new post waits in confirming until its block is final
+ * the block and the transaction are kept to check the post and to match removed logs
+ * @returns The updated file
+ */
+export async function markConfirming(file: StoredFile, post: { postId: bigint, price: bigint, txHash: string, blockNumber: number }) {
+  return await getContentStore().updateFile(file.id, {
+    keyvalues: {
+      status: "confirming",
+      postId: `${post.postId}`,
+      price: `${post.price}`,
+      txHash: post.txHash,
+      blockNumber: `${post.blockNumber}`,
+      confirmingSince: new Date().toISOString(),
+    }
+  })
+}
+
+/**
+ * Mark the file onchain, then index the post and count its tags
+ * the caller claims the file, a post indexed and counted twice inflates the tag counts
+ * @param keyvalues - Stored along with the status
+ */
+export async function markOnchain(file: StoredFile, postId: string, keyvalues: Record<string, string> = {}) {
+  await getContentStore().updateFile(file.id, {
+    keyvalues: {
+      ...keyvalues,
+      status: "onchain",
+      confirmedAt: new Date().toISOString(),
+    }
+  })
+
+  // A post missing from search must not keep it from being onchain
+  try {
+    await indexPublishedPost(file, postId)
+  } catch (error) {
+    console.error('Search index error:', error)
+  }
+
+  try {
+    await recordTagActivity(getFileTags(file), 'publish')
+  } catch (error) {
+    console.error('Tag count error:', error)
+  }
+}
+
+/**
+ * Give the draft back to its owner, the post it was published as is not on chain
+ * an onchain file also leaves the search index and the tag counts
+ */
+export async function revertToPending(file: StoredFile, reason: string) {
+  console.log('↩️ Reverting file to pending:', file.cid, reason)
+
+  await getContentStore().updateFile(file.id, {
+    keyvalues: {
+      status: "pending",
+      revertedAt: new Date().toISOString(),
+    }
+  })
+
+  if (file.keyvalues.status !== "onchain") {
+    return
+  }
+  try {
+    await getSearchIndex().remove(file.keyvalues.postId)
+    await removeTagPost(getFileTags(file))
+  } catch (error) {
+    console.error('Error forgetting reverted post:', error)
+  }
+}
+
+const checkConfirmingFile = async (file: StoredFile, latestBlock: number, marketplaceContract: ethers.Contract): Promise<ConfirmationStatus> => {
+  const { confirmations, timeoutSeconds } = getConfirmationPolicy()
+  const postId = BigInt(file.keyvalues.postId || '0')
+  const blockNumber = parseInt(file.keyvalues.blockNumber || '0')
+
+  // Last block with enough confirmations, state read at it is final
+  const finalBlock = latestBlock - Math.max(confirmations - 1, 0)
+  if (blockNumber <= finalBlock) {
+    const finalPostId = await marketplaceContract.postCidToTokenId(file.cid, { blockTag: finalBlock })
+    if (postId !== 0n && finalPostId === postId) {
+      await markOnchain(file, `${postId}`)
+      return 'onchain'
+    }
+  }
+
+  const since = Date.parse(file.keyvalues.confirmingSince || file.created_at)
+  if (Date.now() - since > timeoutSeconds * 1000) {
+    const latestPostId = await marketplaceContract.postCidToTokenId(file.cid)
+    if (latestPostId === 0n) {
+      await revertToPending(file, 'post never reached finality')
+      return 'pending'
+    }
+  }
+
+  return 'confirming'
+}
+
+/**
+ * Check a confirming file against the chain
+ * - onchain: the post is in a block with enough confirmations
+ * - pending: the post is not on chain and the confirmation timed out
+ * - confirming: not final yet, or checked by another run
+ * @param latestBlock - Current block number, checked once for many files
+ */
+export async function confirmFile(file: StoredFile, latestBlock: number, marketplaceContract: ethers.Contract): Promise<ConfirmationStatus> {
+  const status = await claimFile(file, "confirming", current => checkConfirmingFile(current, latestBlock, marketplaceContract))
+  return status || 'confirming'
+}
+
+/**
+ * Check every confirming file against the chain
+ * @returns The number of files confirmed, reverted to pending and still confirming
+ */
+export async function confirmPosts() {
+  const files = await getContentStore().listAllFiles({ keyvalues: { status: "confirming" } })
+  const summary = { onchain: 0, pending: 0, confirming: 0 }
+  if (files.length === 0) {
+    return summary
+  }
+
+  const marketplaceContract = new ethers.Contract(getMarketplaceAddress(), marketplace_abi, provider)
+  const latestBlock = await provider.getBlockNumber()
+  for (const file of files) {
+    try {
+      summary[await confirmFile(file, latestBlock, marketplaceContract)] += 1
+    } catch (error) {
+      console.error('Confirmation error:', file.cid, error)
+      summary.confirming += 1
+    }
+  }
+  return summary
+}
@@ -0,0 +1,370 @@
+/**
+ * Versioned schema of draft and post content
+ * - version 0 is the untyped content stored before the schema, any JSON value
+ * - version 1 is a title, a summary and a list of typed blocks
+ * - a previewBreak block marks the end of the free preview of a paid post
+ */
+export const DOCUMENT_VERSION = 1
+
+export type Block =
+  | { type: 'paragraph', text: string }
+  | { type: 'heading', level: 1 | 2 | 3 | 4 | 5 | 6, text: string }
+  | { type: 'image', src: string, alt: string, caption: string }
+  | { type: 'code', language: string, code: string }
+  | { type: 'embed', url: string, provider: EmbedProvider }
+  | { type: 'previewBreak' }
+
+export type BlockType = Block['type']
+
+export interface InkDocument {
+  version: typeof DOCUMENT_VERSION
+  title: string
+  summary: string
+  blocks: Block[]
+}
+
+export interface DocumentError {
+  path: string
+  message: string
+}
+
+export type DocumentResult =
+  | { ok: true, document: InkDocument }
+  | { ok: false, errors: DocumentError[] }
+
+// Content the frontend used to save for a new, empty draft
+const LEGACY_EMPTY_CONTENT = 'Initial Empty Json'
+
+const MAX_BLOCKS = 2000
+const MAX_TITLE_LENGTH = 200
+const MAX_SUMMARY_LENGTH = 1000
+const MAX_TEXT_LENGTH = 20000
+const MAX_CODE_LENGTH = 100000
+
+/**
+ * Hosts an embed may point to, by provider
+ */
+export const EMBED_PROVIDERS = {
+  youtube: ['youtube.com', 'www.youtube.com', 'youtu.be'],
+  vimeo: ['vimeo.com', 'player.vimeo.com'],
+  twitter: ['twitter.com', 'x.com'],
+  gist: ['gist.github.com'],
+} as const
+
+export type EmbedProvider = keyof typeof EMBED_PROVIDERS
+
+// Inline tags allowed in paragraph and heading text, only links keep an attribute (href)
+const INLINE_TAGS = ['a', 'b', 'strong', 'i', 'em', 'u', 's', 'code', 'br', 'sub', 'sup']
+
+// Tags dropped together with everything inside them
+const DROPPED_TAGS = ['script', 'style', 'iframe', 'object', 'embed', 'template', 'noscript', 'svg', 'math']
+
+const BLOCK_FIELDS: Record<BlockType, string[]> = {
+  paragraph: ['type', 'text'],
+  heading: ['type', 'level', 'text'],
+  image: ['type', 'src', 'alt', 'caption'],
+  code: ['type', 'language', 'code'],
+  embed: ['type', 'url', 'provider'],
+  previewBreak: ['type'],
+}
+
+export const createEmptyDocument = (): InkDocument => ({
+  version: DOCUMENT_VERSION,
+  title: '',
+  summary: '',
+  blocks: [],
+})
+
+const escapeText = (text: string) => {
+  return text
+    .replace(/&(?!(?:[a-zA-Z]+|#\d+|#x[a-fA-F0-9]+);)/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
+
+/**
+ * @returns The normalized URL when its protocol is allowed, otherwise null
+ */
+export const sanitizeUrl = (url: string, protocols: string[] = ['https:', 'http:', 'mailto:']) => {
+  try {
+    const parsed = new URL(url.trim())
+    return protocols.includes(parsed.protocol) ? parsed.href : null
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Sanitize inline HTML
+ * - tags outside the inline allowlist are removed, their text is kept
+ * - script, style, iframe... are removed with their content
+ * - links keep only an http(s) or mailto href and never open with the opener
+ * - stray <, > and & are escaped
+ */
+export const sanitizeHtml = (html: string) => {
+  const dropped = DROPPED_TAGS.join('|')
+  const cleaned = html
+    .replace(/<!--[\s\S]*?(-->|$)/g, '')
+    .replace(new RegExp(`<(${dropped})\\b[\\s\\S]*?(<\\/\\1\\s*>|$)`, 'gi'), '')
+
+  let output = ''
+  let lastIndex = 0
+  const openTags: string[] = []
+  const tagPattern = /<(\/?)([a-zA-Z][a-zA-Z0-9]*)\b([^<>]*)>/g
+
+  for (const match of cleaned.matchAll(tagPattern)) {
+    output += escapeText(cleaned.slice(lastIndex, match.index))
+    lastIndex = (match.index as number) + match[0].length
+
+    const closing = match[1] === '/'
+    const tag = match[2].toLowerCase()
+    if (!INLINE_TAGS.includes(tag)) {
+      continue
+    }
+
+    if (closing) {
+      const openIndex = openTags.lastIndexOf(tag)
+      if (openIndex !== -1) {
+        // Close the tags left open inside this one
+        output += openTags.splice(openIndex).reverse().map(open => `</${open}>`).join('')
+      }
+      continue
+    }
+
+    if (tag === 'br') {
+      output += '<br>'
+      continue
+    }
+    if (tag === 'a') {
+      const href = match[3].match(/\bhref\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'>]+))/i)
+      const url = href ? sanitizeUrl(href[1] ?? href[2] ?? href[3]) : null
+      output += url ? `<a href="${escapeText(url)}" rel="noopener noreferrer nofollow">` : '<a>'
+    } else {
+      output += `<${tag}>`
+    }
+    openTags.push(tag)
+  }
+
+  output += escapeText(cleaned.slice(lastIndex))
+  return output + openTags.reverse().map(tag => `</${tag}>`).join('')
+}
+
+/**
+ * Plain text fields (title, summary, alt...) keep no markup at all
+ */
+export const stripHtml = (text: string) => {
+  return sanitizeHtml(text)
+    .replace(/<[^>]*>/g, '')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&amp;/g, '&')
+}
+
+export const getEmbedProvider = (url: string): EmbedProvider | null => {
+  const sanitized = sanitizeUrl(url, ['https:'])
+  if (!sanitized) {
+    return null
+  }
+  const host = new URL(sanitized).hostname
+  const provider = Object.entries(EMBED_PROVIDERS).find(([, hosts]) => (hosts as readonly string[]).includes(host))
+  return provider ? provider[0] as EmbedProvider : null
+}
+
+/**
+ * Upgrades from each version to the next, keyed by the version they upgrade from
+ */
+const MIGRATIONS: Record<number, (document: any) => any> = {
+  0: (content: unknown) => {
+    const document = createEmptyDocument()
+    if (typeof content === 'string') {
+      if (content !== LEGACY_EMPTY_CONTENT) {
+        document.blocks = content
+          .split(/\n{2,}/)
+          .map(text => text.trim())
+          .filter(text => text.length > 0)
+          .map(text => ({ type: 'paragraph', text: escapeText(text) }))
+      }
+      return document
+    }
+    if (content !== null && content !== undefined) {
+      // Untyped content is kept verbatim so nothing is lost
+      document.blocks = [{ type: 'code', language: 'json', code: JSON.stringify(content, null, 2) }]
+    }
+    return document
+  },
+}
+
+const getVersion = (content: unknown) => {
+  const version = (content as { version?: unknown })?.version
+  return typeof content === 'object' && content !== null && !Array.isArray(content)
+    && typeof version === 'number' && Number.isInteger(version) && version > 0
+    ? version
+    : 0
+}
+
+/**
+ * Upgrade content stored in an older version to the current schema
+ * documents from a newer version are returned as is
+ */
+export const migrateDocument = (content: unknown) => {
+  let document: any = content
+  let version = getVersion(content)
+  while (version < DOCUMENT_VERSION) {
+    document = MIGRATIONS[version](document)
+    version = getVersion(document)
+  }
+  return document
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> => {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+const validateString = (value: unknown, path: string, maxLength: number, errors: DocumentError[], required = true) => {
+  if (value === undefined && !required) {
+    return ''
+  }
+  if (typeof value !== 'string') {
+    errors.push({ path, message: 'must be a string' })
+    return ''
+  }
+  if (value.length > maxLength) {
+    errors.push({ path, message: `must be at most ${maxLength} characters` })
+  }
+  return value
+}
+
+const validateBlock = (block: unknown, path: string, errors: DocumentError[]): Block | null => {
+  if (!isObject(block)) {
+    errors.push({ path, message: 'must be an object' })
+    return null
+  }
+
+  const type = block.type as BlockType
+  if (!Object.prototype.hasOwnProperty.call(BLOCK_FIELDS, type)) {
+    errors.push({ path: `${path}/type`, message: `must be one of ${Object.keys(BLOCK_FIELDS).join(', ')}` })
+    return null
+  }
+  for (const key of Object.keys(block)) {
+    if (!BLOCK_FIELDS[type].includes(key)) {
+      errors.push({ path: `${path}/${key}`, message: `is not allowed in a ${type} block` })
+    }
+  }
+
+  switch (type) {
+    case 'paragraph':
+      return { type, text: sanitizeHtml(validateString(block.text, `${path}/text`, MAX_TEXT_LENGTH, errors)) }
+    case 'heading': {
+      const level = block.level
+      if (typeof level !== 'number' || !Number.isInteger(level) || level < 1 || level > 6) {
+        errors.push({ path: `${path}/level`, message: 'must be an integer from 1 to 6' })
+      }
+      const text = sanitizeHtml(validateString(block.text, `${path}/text`, MAX_TEXT_LENGTH, errors))
+      return { type, level: level as 1 | 2 | 3 | 4 | 5 | 6, text }
+    }
+    case 'image': {
+      const src = sanitizeUrl(validateString(block.src, `${path}/src`, MAX_TEXT_LENGTH, errors), ['https:', 'ipfs:'])
+      if (typeof block.src === 'string' && !src) {
+        errors.push({ path: `${path}/src`, message: 'must be an https or ipfs URL' })
+      }
+      return {
+        type,
+        src: src || '',
+        alt: stripHtml(validateString(block.alt, `${path}/alt`, MAX_SUMMARY_LENGTH, errors, false)),
+        caption: stripHtml(validateString(block.caption, `${path}/caption`, MAX_SUMMARY_LENGTH, errors, false)),
+      }
+    }
+    case 'code': {
+      const language = validateString(block.language, `${path}/language`, 32, errors, false)
+      if (!/^[a-zA-Z0-9+#.-]*$/.test(language)) {
+        errors.push({ path: `${path}/language`, message: 'must only contain letters, digits, +, #, . and -' })
+      }
+      return { type, language: language.toLowerCase(), code: validateString(block.code, `${path}/code`, MAX_CODE_LENGTH, errors) }
+    }
+    case 'embed': {
+      const url = validateString(block.url, `${path}/url`, MAX_TEXT_LENGTH, errors)
+      const provider = getEmbedProvider(url)
+      if (typeof block.url === 'string' && !provider) {
+        errors.push({ path: `${path}/url`, message: `must be an https URL from ${Object.keys(EMBED_PROVIDERS).join(', ')}` })
+      }
+      return { type, url: sanitizeUrl(url, ['https:']) || '', provider: provider as EmbedProvider }
+    }
+    case 'previewBreak':
+      return { type }
+  }
+}
+
+/**
+ * Validate and sanitize draft content
+ * content in an older version (or a plain string) is migrated first, errors are reported with JSON pointer paths
+ * any other value is rejected, only stored content keeps its other legacy shapes (see migrateDocument)
+ * @returns The sanitized document, or every validation error
+ */
+export function parseDocument(content: unknown): DocumentResult {
+  if (!isObject(content) && typeof content !== 'string') {
+    return { ok: false, errors: [{ path: '', message: 'must be an object' }] }
+  }
+  // An object without a version is a malformed document, not legacy content
+  const document = isObject(content) && !('version' in content) ? content : migrateDocument(content)
+  const errors: DocumentError[] = []
+
+  if (!isObject(document)) {
+    return { ok: false, errors: [{ path: '', message: 'must be an object' }] }
+  }
+  if (document.version !== DOCUMENT_VERSION) {
+    return { ok: false, errors: [{ path: '/version', message: `must be ${DOCUMENT_VERSION}` }] }
+  }
+  for (const key of Object.keys(document)) {
+    if (!['version', 'title', 'summary', 'blocks'].includes(key)) {
+      errors.push({ path: `/${key}`, message: 'is not allowed' })
+    }
+  }
+
+  const title = stripHtml(validateString(document.title, '/title', MAX_TITLE_LENGTH, errors))
+  const summary = stripHtml(validateString(document.summary, '/summary', MAX_SUMMARY_LENGTH, errors, false))
+
+  const blocks: Block[] = []
+  if (!Array.isArray(document.blocks)) {
+    errors.push({ path: '/blocks', message: 'must be an array' })
+  } else if (document.blocks.length > MAX_BLOCKS) {
+    errors.push({ path: '/blocks', message: `must have at most ${MAX_BLOCKS} blocks` })
+  } else {
+    document.blocks.forEach((block: unknown, index: number) => {
+      const parsed = validateBlock(block, `/blocks/${index}`, errors)
+      if (parsed?.type === 'previewBreak' && blocks.some(block => block.type === 'previewBreak')) {
+        errors.push({ path: `/blocks/${index}`, message: 'only one previewBreak block is allowed' })
+      }
+      if (parsed) {
+        blocks.push(parsed)
+      }
+    })
+  }
+
+  if (errors.length > 0) {
+    return { ok: false, errors }
+  }
+  return { ok: true, document: { version: DOCUMENT_VERSION, title, summary, blocks } }
+}
+
+/**
+ * Number of blocks in the free preview
+ * the previewBreak block wins over the requested length, the length is capped to the document
+ * @param previewBlocks - Requested number of blocks when the document has no previewBreak
+ */
+export const getPreviewLength = (document: InkDocument, previewBlocks: number) => {
+  const breakIndex = document.blocks.findIndex(block => block.type === 'previewBreak')
+  if (breakIndex !== -1) {
+    return breakIndex
+  }
+  return Math.min(Math.max(0, previewBlocks), document.blocks.length)
+}
+
+/**
+ * The free part of a document, its title, summary and first blocks
+ */
+export const createPreview = (document: InkDocument, length: number): InkDocument => ({
+  ...document,
+  blocks: document.blocks.slice(0, length).filter(block => block.type !== 'previewBreak'),
+})
@@ -0,0 +1,174 @@
+import { ethers } from 'ethers'
+import { marketplace_abi } from '../abis/marketPlace.ts'
+import { provider } from './provider.ts'
+import { getMarketplaceAddress, getRevisionRetention } from './shared.ts'
+import { getContentStore, type StoredFile } from './storage.ts'
+import { decryptContent } from './encryption.ts'
+import { migrateDocument, parseDocument } from './document.ts'
+
+export const deleteFile = async (fileId: string) => {
+  try {
+    const deletedFile = await getContentStore().deleteFiles([fileId])
+    return deletedFile
+  } catch (error) {
+    console.error('File delete error:', error)
+    return null
+  }
+}
+
+export const getFileByCid = async (cid: string, authorizedAddress: string) => {
+  if (!cid) {
+    return null
+  }
+  
+  try {
+    const response = await getContentStore().listFiles({ cid })
+
+    // Identical content gives drafts of different owners, or a revision and its draft, the same cid
+    const file = response.files.find((file: StoredFile) => {
+      return file.keyvalues.owner === authorizedAddress.toLowerCase() && file.keyvalues.status !== "revision"
+    });
+    if (!file) {
+      return null
+    }
+    
+    if (file.keyvalues.status === "onchain" || file.keyvalues.status === "confirming") {
+      return null;
+    }
+
+    return file;
+  } catch (error) {
+    console.error('File get error:', error)
+    return null
+  }
+}
+
+/**
+ * Find the draft a post was published from
+ * the webhook may not have marked it onchain yet, so a pending draft with the cid is accepted too
+ */
+export const getFileByPostCid = async (cid: string, author: string) => {
+  const response = await getContentStore().listFiles({ cid })
+  const files = response.files.filter((file: StoredFile) => {
+    return file.keyvalues.owner === author.toLowerCase() && file.group_id
+  })
+  return files.find((file: StoredFile) => file.keyvalues.status === "onchain")
+    || files.find((file: StoredFile) => file.keyvalues.status === "confirming")
+    || files.find((file: StoredFile) => file.keyvalues.status === "pending")
+    || null
+}
+
+/**
+ * Fetch and decrypt the content of a draft, revision or post
+ * content stored in an older document version is migrated to the current one
+ */
+export const getFileContent = async (file: StoredFile): Promise<unknown> => {
+  const { data } = await getContentStore().getContent(file.cid)
+  const decrypted: unknown = await decryptContent(file.group_id, data)
+  if (typeof decrypted === 'object' && decrypted !== null && 'content' in decrypted) {
+    return { ...decrypted, content: migrateDocument(decrypted.content) }
+  }
+  return decrypted
+}
+
+/**
+ * The document in the data of a file, undefined when the data has none
+ */
+export const getContentField = (data: unknown) => {
+  return typeof data === 'object' && data !== null && 'content' in data ? data.content : undefined
+}
+
+/**
+ * The document of a draft or post, validated and sanitized like saved content
+ * @returns null when the content is missing or is not a usable document
+ */
+export const getFileDocument = async (file: StoredFile) => {
+  const content = getContentField(await getFileContent(file))
+  if (content === undefined) {
+    return null
+  }
+  const result = parseDocument(content)
+  return result.ok ? result.document : null
+}
+
+export const createFile = async (fileId: string, fileCid: string, fileName: string, groupId: any, author: string) => {
+  const marketplaceContract = new ethers.Contract(getMarketplaceAddress(), marketplace_abi, provider)
+  const postId = await marketplaceContract.postCidToTokenId(fileCid)
+  if (postId !== 0n) {
+    return false;
+  }
+
+  const store = getContentStore()
+
+  await store.updateFile(fileId, {
+    name: fileName,
+    keyvalues: {
+      owner: author.toLowerCase(),
+      status: "pending",
+    }
+  })
+
+  await store.addToGroup(groupId, [fileId]);
+
+  return true;
+}
+
+/**
+ * Keep the previous upload of a draft as a revision in its group
+ */
+export const archiveFile = async (fileId: string) => {
+  await getContentStore().updateFile(fileId, {
+    keyvalues: {
+      status: "revision",
+      archivedAt: new Date().toISOString(),
+    }
+  })
+}
+
+/**
+ * List the current draft and its revisions, newest first
+ */
+export const listRevisions = async (groupId: string, owner: string) => {
+  const files = await getContentStore().listAllFiles({ group: groupId })
+  return files
+    .filter(file => file.keyvalues.owner === owner.toLowerCase())
+    .filter(file => file.keyvalues.status === "pending" || file.keyvalues.status === "revision")
+    .sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime())
+}
+
+export const getDraftHead = async (groupId: string, owner: string) => {
+  const revisions = await listRevisions(groupId, owner)
+  return revisions.find(file => file.keyvalues.status === "pending") || null
+}
+
+export const getRevisionByCid = async (groupId: string, cid: string, owner: string) => {
+  const revisions = await listRevisions(groupId, owner)
+  return revisions.find(file => file.cid === cid && file.keyvalues.status === "revision") || null
+}
+
+/**
+ * Delete revisions beyond the retention policy
+ * a failed prune is only logged, the next save prunes again
+ * @returns the number of deleted revisions
+ */
+export const pruneRevisions = async (groupId: string, owner: string) => {
+  const { maxRevisions, maxAgeDays } = getRevisionRetention()
+
+  try {
+    const revisions = (await listRevisions(groupId, owner)).filter(file => file.keyvalues.status === "revision")
+
+    const cutoff = maxAgeDays > 0 ? Date.now() - maxAgeDays * 24 * 60 * 60 * 1000 : null
+    const expired = revisions.filter((file, index) => {
+      return index >= maxRevisions || (cutoff !== null && new Date(file.created_at).getTime() < cutoff)
+    })
+    if (expired.length === 0) {
+      return 0
+    }
+
+    await getContentStore().deleteFiles(expired.map(file => file.id))
+    return expired.length
+  } catch (error) {
+    console.error('Revision prune error:', error)
+    return 0
+  }
+}
\ No newline at end of file
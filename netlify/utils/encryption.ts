@@ -0,0 +1,144 @@
+import { getKeyValueStore } from './kv.ts'
+import { getContentEncryptionKey } from './shared.ts'
+
+/**
+ * Post content as stored, the JSON document encrypted with the post's data key
+ */
+export interface EncryptedContent {
+  alg: 'A256GCM'
+  iv: string
+  ciphertext: string
+}
+
+// A data key as stored, the raw key encrypted with the master key
+interface StoredContentKey {
+  iv: string
+  wrappedKey: string
+  createdAt: string
+}
+
+const getContentKeyStore = () => getKeyValueStore('content-keys')
+
+const keyId = (groupId: string) => `group:${groupId}`
+
+const toBase64 = (bytes: Uint8Array) => btoa(Array.from(bytes, byte => String.fromCharCode(byte)).join(''))
+
+const fromBase64 = (value: string) => Uint8Array.from(atob(value), char => char.charCodeAt(0))
+
+export const isEncryptedContent = (data: unknown): data is EncryptedContent => {
+  const content = data as EncryptedContent
+  return typeof data === 'object' && data !== null
+    && content.alg === 'A256GCM' && typeof content.iv === 'string' && typeof content.ciphertext === 'string'
+}
+
+const getMasterKey = async () => {
+  const secret = getContentEncryptionKey()
+  if (!secret) {
+    throw new Error('CONTENT_ENCRYPTION_KEY must be set')
+  }
+  return await crypto.subtle.importKey('raw', fromBase64(secret), 'AES-GCM', false, ['encrypt', 'decrypt'])
+}
+
+const importDataKey = async (stored: StoredContentKey) => {
+  const raw = await crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv: fromBase64(stored.iv) },
+    await getMasterKey(),
+    fromBase64(stored.wrappedKey)
+  )
+  return await crypto.subtle.importKey('raw', raw, 'AES-GCM', true, ['encrypt', 'decrypt'])
+}
+
+/**
+ * Get the data key of a draft group, the same key encrypts the post once published
+ * @param create - Generate the key when the group has none yet
+ */
+export const getContentKey = async (groupId: string, create = false): Promise<CryptoKey | null> => {
+  const store = getContentKeyStore()
+  const stored = await store.get<StoredContentKey>(keyId(groupId))
+  if (stored) {
+    return await importDataKey(stored)
+  }
+  if (!create) {
+    return null
+  }
+
+  const raw = crypto.getRandomValues(new Uint8Array(32))
+  const iv = crypto.getRandomValues(new Uint8Array(12))
+  const wrappedKey = new Uint8Array(await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, await getMasterKey(), raw))
+  const created = await store.create<StoredContentKey>(keyId(groupId), {
+    iv: toBase64(iv),
+    wrappedKey: toBase64(wrappedKey),
+    createdAt: new Date().toISOString(),
+  })
+
+  // Another save generated the key first, use that one
+  if (!created) {
+    return await getContentKey(groupId)
+  }
+  return await crypto.subtle.importKey('raw', raw, 'AES-GCM', true, ['encrypt', 'decrypt'])
+}
+
+/**
+ * Deleting the data key makes every stored copy of the content unreadable
+ */
+export const deleteContentKey = async (groupId: string) => {
+  await getContentKeyStore().delete(keyId(groupId))
+}
+
+/**
+ * Encrypt a JSON document with the data key of its group
+ */
+export const encryptContent = async (groupId: string, data: unknown): Promise<EncryptedContent> => {
+  const key = await getContentKey(groupId, true) as CryptoKey
+  const iv = crypto.getRandomValues(new Uint8Array(12))
+  const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, new TextEncoder().encode(JSON.stringify(data)))
+  return {
+    alg: 'A256GCM',
+    iv: toBase64(iv),
+    ciphertext: toBase64(new Uint8Array(ciphertext)),
+  }
+}
+
+/**
+ * Decrypt stored content, content stored before encryption is returned as is
+ */
+export const decryptContent = async (groupId: string | null, data: unknown) => {
+  if (!isEncryptedContent(data)) {
+    return data
+  }
+
+  const key = groupId ? await getContentKey(groupId) : null
+  if (!key) {
+    throw new Error('Content key not found')
+  }
+  const plaintext = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(data.iv) }, key, fromBase64(data.ciphertext))
+  return JSON.parse(new TextDecoder().decode(plaintext))
+}
+
+/**
+ * Import the public key of a reader
+ * @param publicKey - The reader's RSA-OAEP (SHA-256) public key, base64 SPKI
+ * @returns The key, or null when it is not valid base64 or not an RSA-OAEP SPKI key
+ */
+export const importReaderKey = async (publicKey: string) => {
+  try {
+    return await crypto.subtle.importKey('spki', fromBase64(publicKey), { name: 'RSA-OAEP', hash: 'SHA-256' }, false, ['wrapKey'])
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Wrap the data key of a group for a reader
+ * @param readerKey - The reader's public key, see importReaderKey
+ * @returns The data key encrypted with the public key, base64, or null if the group has no key
+ */
+export const wrapContentKey = async (groupId: string, readerKey: CryptoKey) => {
+  const key = await getContentKey(groupId)
+  if (!key) {
+    return null
+  }
+
+  const wrapped = await crypto.subtle.wrapKey('raw', key, readerKey, { name: 'RSA-OAEP' })
+  return toBase64(new Uint8Array(wrapped))
+}
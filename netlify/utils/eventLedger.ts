@@ -0,0 +1,154 @@
+import { getKeyValueStore } from './kv.ts'
+import { getEventRetryPolicy } from './shared.ts'
+import type { ChainEvent } from './chainEvents.ts'
+
+/**
+ * - processed, ignored: done, deliveries of the same event are duplicates
+ * - failed: retried from nextAttemptAt, with an exponential backoff
+ * - dead: failed too many times, only replayed by an admin
+ */
+export type LedgerStatus = 'processed' | 'ignored' | 'failed' | 'dead'
+
+export interface LedgerEntry {
+  /** chainId:txHash:logIndex, with :removed for a removed log */
+  id: string
+  event: ChainEvent
+  status: LedgerStatus
+  attempts: number
+  /** Handler message, or the error of the last attempt */
+  message: string
+  nextAttemptAt: string | null
+  createdAt: string
+  updatedAt: string
+}
+
+// Done events are remembered long enough to drop every redelivery of the providers
+const DONE_RETENTION_SECONDS = 30 * 24 * 60 * 60
+
+// A crashed attempt releases its event after this delay
+const LOCK_TTL_SECONDS = 120
+
+const getLedgerStore = () => getKeyValueStore('event-ledger')
+
+/**
+ * A removed log has its own id, undoing an event is not a duplicate of the event
+ */
+export const getEventId = (event: ChainEvent) => {
+  return `${event.chainId}:${event.txHash}:${event.logIndex}${event.removed ? ':removed' : ''}`
+}
+
+// Blobs are JSON, uint arguments are kept as { $bigint: '...' }
+const toStored = (entry: LedgerEntry) => {
+  return JSON.parse(JSON.stringify(entry, (_, value) => typeof value === 'bigint' ? { $bigint: value.toString() } : value))
+}
+
+const isStoredBigInt = (value: unknown): value is { $bigint: string } => {
+  return typeof value === 'object' && value !== null && '$bigint' in value && typeof value.$bigint === 'string'
+}
+
+const fromStored = (entry: LedgerEntry): LedgerEntry => {
+  const args = Object.fromEntries(Object.entries(entry.event.args).map(([name, value]: [string, unknown]) => {
+    return [name, isStoredBigInt(value) ? BigInt(value.$bigint) : value]
+  }))
+  return { ...entry, event: { ...entry.event, args } }
+}
+
+/**
+ * The entry as returned by the API, uint arguments as decimal strings
+ */
+export const formatLedgerEntry = (entry: LedgerEntry) => {
+  return JSON.parse(JSON.stringify(entry, (_, value) => typeof value === 'bigint' ? value.toString() : value)) as LedgerEntry
+}
+
+export async function getLedgerEntry(id: string) {
+  const entry = await getLedgerStore().get<LedgerEntry>(`event:${id}`)
+  return entry ? fromStored(entry) : null
+}
+
+/**
+ * Claim an event for one attempt, concurrent deliveries of the same event wait for the next retry
+ * @returns false when another attempt holds the event
+ */
+export const lockEvent = (id: string) => getLedgerStore().create(`lock:${id}`, true, LOCK_TTL_SECONDS)
+
+export const unlockEvent = (id: string) => getLedgerStore().delete(`lock:${id}`)
+
+/**
+ * Delay before the next attempt, doubling from the base delay up to the max delay
+ */
+export const getRetryDelaySeconds = (attempts: number) => {
+  const { baseDelaySeconds, maxDelaySeconds } = getEventRetryPolicy()
+  return Math.min(baseDelaySeconds * Math.pow(2, Math.max(attempts - 1, 0)), maxDelaySeconds)
+}
+
+/**
+ * Record the outcome of an attempt
+ * a failure is scheduled for a retry, or dead-lettered once the attempts are exhausted
+ */
+export async function recordEventAttempt(event: ChainEvent, previous: LedgerEntry | null, outcome: { status: 'processed' | 'ignored' | 'failed', message: string }, now = new Date()) {
+  const store = getLedgerStore()
+  const id = getEventId(event)
+  const attempts = (previous?.attempts || 0) + 1
+
+  let status: LedgerStatus = outcome.status
+  let nextAttemptAt: string | null = null
+  if (outcome.status === 'failed') {
+    if (attempts >= getEventRetryPolicy().maxAttempts) {
+      status = 'dead'
+    } else {
+      nextAttemptAt = new Date(now.getTime() + getRetryDelaySeconds(attempts) * 1000).toISOString()
+    }
+  }
+
+  const entry: LedgerEntry = {
+    id,
+    event,
+    status,
+    attempts,
+    message: outcome.message,
+    nextAttemptAt,
+    createdAt: previous?.createdAt || now.toISOString(),
+    updatedAt: now.toISOString(),
+  }
+
+  const done = status === 'processed' || status === 'ignored'
+  await store.set(`event:${id}`, toStored(entry), done ? DONE_RETENTION_SECONDS : undefined)
+  // Failed and dead events are listed from their own keys, without scanning the whole ledger
+  if (done) {
+    await store.delete(`failed:${id}`)
+  } else {
+    await store.set(`failed:${id}`, id)
+  }
+  return entry
+}
+
+/**
+ * Forget an event, its next delivery is processed again
+ */
+export async function forgetLedgerEntry(id: string) {
+  const store = getLedgerStore()
+  await store.delete(`event:${id}`)
+  await store.delete(`failed:${id}`)
+}
+
+/**
+ * Events that failed, oldest first
+ * @param status - Only the events waiting for a retry (failed) or dead-lettered (dead)
+ */
+export async function listFailedEvents(status?: 'failed' | 'dead') {
+  const store = getLedgerStore()
+  const keys = await store.list('failed:')
+  const entries = await Promise.all(keys.map(key => getLedgerEntry(key.slice('failed:'.length))))
+  return entries
+    .filter((entry): entry is LedgerEntry => entry !== null && (entry.status === 'failed' || entry.status === 'dead'))
+    .filter(entry => !status || entry.status === status)
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+}
+
+/**
+ * Failed events whose next attempt is due
+ */
+export async function listDueEvents(now = new Date()) {
+  const entries = await listFailedEvents('failed')
+  return entries.filter(entry => entry.nextAttemptAt !== null && Date.parse(entry.nextAttemptAt) <= now.getTime())
+}
@@ -0,0 +1,298 @@
+import { ethers } from 'ethers'
+import { marketplace_abi } from '../abis/marketPlace.ts'
+import { provider } from './provider.ts'
+import { getMarketplaceAddress } from './shared.ts'
+import { getFileByPostCid } from './drafts.ts'
+import { getContentStore } from './storage.ts'
+import { indexPublishedPost } from './search.ts'
+import { getFileTags, recordTagPurchase } from './tags.ts'
+import { forgetLedgerEntry, getEventId, getLedgerEntry, listDueEvents, lockEvent, recordEventAttempt, unlockEvent } from './eventLedger.ts'
+import { claimFile, confirmFile, markConfirming, revertToPending } from './confirmations.ts'
+import type { ChainEvent } from './chainEvents.ts'
+
+export type EventStatus = 'processed' | 'ignored' | 'failed'
+
+/**
+ * Outcome of an event in a delivery
+ * - duplicate: already processed or ignored
+ * - locked: another delivery is processing it
+ * - scheduled: it failed before and its next retry is not due
+ * - dead: it failed too many times, only an admin replays it
+ */
+export type EventOutcome = EventStatus | 'duplicate' | 'locked' | 'scheduled' | 'dead'
+
+export interface EventResult {
+  id: string
+  name: string
+  txHash: string
+  logIndex: number
+  status: EventOutcome
+  message: string
+  attempts: number
+}
+
+type EventHandler = (event: ChainEvent) => Promise<{ status: Exclude<EventStatus, 'failed'>, message: string }>
+
+const getMarketplaceContract = () => new ethers.Contract(getMarketplaceAddress(), marketplace_abi, provider)
+
+/**
+ * The post and its stored file
+ * @returns null when no file is stored for the post
+ */
+const getPostFile = async (marketplaceContract: ethers.Contract, postId: bigint) => {
+  const postInfo = await marketplaceContract.postInfo(postId)
+  const file = await getFileByPostCid(postInfo.postCid, postInfo.author)
+  return file ? { postInfo, file } : null
+}
+
+/**
+ * Mark the file of a new post confirming, it is onchain once its block is final
+ * a log delivered late may already be final
+ */
+const handlePostCreated: EventHandler = async (event) => {
+  const postCid = event.args.postCid as string
+  const author = (event.args.author as string).toLowerCase()
+
+  // Store errors are thrown, the ledger retries the event instead of ignoring it
+  const file = await getFileByPostCid(postCid, author)
+  if (!file) {
+    console.log('ℹ️ No draft for the new post')
+    return { status: 'ignored', message: 'No draft for the post' }
+  }
+  if (file.keyvalues.status !== "pending") {
+    // Another webhook or the reconciliation already marked it, the intended outcome has been achieved
+    console.log('ℹ️ File already processed by another webhook')
+    return { status: 'ignored', message: `File already marked as ${file.keyvalues.status}` }
+  }
+
+  const confirmingFile = await markConfirming(file, {
+    postId: event.args.tokenId as bigint,
+    price: event.args.costInNativeInWei as bigint,
+    txHash: event.txHash,
+    blockNumber: event.blockNumber,
+  })
+
+  // The confirmation sweep checks the file again, the event is processed either way
+  try {
+    const latestBlock = await provider.getBlockNumber()
+    if (await confirmFile(confirmingFile, latestBlock, getMarketplaceContract()) === 'onchain') {
+      return { status: 'processed', message: 'File marked as onchain' }
+    }
+  } catch (error) {
+    console.error('Confirmation error:', error)
+  }
+  return { status: 'processed', message: 'File marked as confirming' }
+}
+
+/**
+ * A reorg dropped the post, its draft goes back to its owner
+ * only the file published by this very transaction is reverted
+ */
+const handlePostCreatedRemoved: EventHandler = async (event) => {
+  const file = await getFileByPostCid(event.args.postCid as string, event.args.author as string)
+  if (!file || (file.keyvalues.status !== "confirming" && file.keyvalues.status !== "onchain") || file.keyvalues.txHash !== event.txHash) {
+    return { status: 'ignored', message: 'No file published by the removed log' }
+  }
+
+  const reverted = await claimFile(file, file.keyvalues.status, async (current) => {
+    await revertToPending(current, 'log removed by a reorg')
+    return true
+  })
+  if (!reverted) {
+    // The ledger retries the event once the confirmation sweep released the file
+    throw new Error('File is being confirmed by another run')
+  }
+  return { status: 'processed', message: 'File reverted to pending' }
+}
+
+/**
+ * Count a purchase for the trending tags
+ * the tags are read from the stored file of the purchased post
+ */
+const handlePostSubscribed: EventHandler = async (event) => {
+  const postId = event.args.tokenId as bigint
+  const subscriber = event.args.subscriber as string
+
+  const post = await getPostFile(getMarketplaceContract(), postId)
+  if (!post) {
+    console.log('ℹ️ No stored file for the purchased post')
+    return { status: 'ignored', message: 'Purchase of an unknown post' }
+  }
+
+  const counted = await recordTagPurchase(postId.toString(), subscriber, getFileTags(post.file))
+  return counted
+    ? { status: 'processed', message: 'Purchase recorded' }
+    : { status: 'ignored', message: 'Purchase already recorded' }
+}
+
+/**
+ * Store the new price of a post and refresh the search entry of an onchain post, free posts show an excerpt
+ * the price is read from the chain, deliveries out of order cannot store an older one
+ */
+const handlePostPriceUpdated: EventHandler = async (event) => {
+  const postId = event.args.tokenId as bigint
+
+  const post = await getPostFile(getMarketplaceContract(), postId)
+  if (!post) {
+    return { status: 'ignored', message: 'Price update of an unknown post' }
+  }
+
+  await getContentStore().updateFile(post.file.id, {
+    keyvalues: {
+      price: `${post.postInfo.priceInNative}`,
+    }
+  })
+
+  // Drafts waiting for confirmation are not public yet, they are indexed once onchain
+  if (post.file.keyvalues.status === "onchain") {
+    try {
+      await indexPublishedPost(post.file, postId)
+    } catch (error) {
+      console.error('Search index error:', error)
+    }
+  }
+
+  return { status: 'processed', message: 'Price updated' }
+}
+
+/**
+ * Store the number of tokens of a post after a mint or a burn
+ * purchases mint a token to the subscriber, the supply is read from the chain
+ */
+const handleTransfer: EventHandler = async (event) => {
+  const postId = event.args.id as bigint
+  const mint = event.args.sender === ethers.ZeroAddress
+  const burn = event.args.receiver === ethers.ZeroAddress
+  if (!mint && !burn) {
+    return { status: 'ignored', message: 'Transfer does not change the supply' }
+  }
+
+  const marketplaceContract = getMarketplaceContract()
+  const post = await getPostFile(marketplaceContract, postId)
+  if (!post) {
+    return { status: 'ignored', message: 'Transfer of an unknown post' }
+  }
+
+  const supply = await marketplaceContract.totalSupply(postId)
+  await getContentStore().updateFile(post.file.id, {
+    keyvalues: {
+      supply: `${supply}`,
+    }
+  })
+
+  return { status: 'processed', message: mint ? 'Mint recorded' : 'Burn recorded' }
+}
+
+/**
+ * Handlers by event name, the other marketplace events (approvals, configuration, pauses)
+ * are acknowledged and ignored
+ */
+const EVENT_HANDLERS: Record<string, EventHandler> = {
+  PostCreated: handlePostCreated,
+  PostSubscribed: handlePostSubscribed,
+  PostPriceUpdated: handlePostPriceUpdated,
+  Transfer: handleTransfer,
+}
+
+/**
+ * Handlers of the logs removed by a reorg
+ * price and supply are read from the chain, running their handlers again undoes the removed log
+ */
+const REMOVED_EVENT_HANDLERS: Record<string, EventHandler> = {
+  PostCreated: handlePostCreatedRemoved,
+  PostPriceUpdated: handlePostPriceUpdated,
+  Transfer: handleTransfer,
+}
+
+const runHandler = async (event: ChainEvent): Promise<{ status: EventStatus, message: string }> => {
+  const handler = event.removed ? REMOVED_EVENT_HANDLERS[event.name] : EVENT_HANDLERS[event.name]
+  if (!handler) {
+    return { status: 'ignored', message: 'No handler for the event' }
+  }
+  try {
+    return await handler(event)
+  } catch (error) {
+    console.error(`Error processing ${event.name}:`, error)
+    return { status: 'failed', message: error instanceof Error ? error.message : 'Unknown error' }
+  }
+}
+
+/**
+ * Process an event once, whichever provider delivered it and how many times
+ * the outcome is recorded in the event ledger, failures are retried with a backoff
+ * @param replay - Run a failed or dead event now, ignoring its backoff and its attempts
+ */
+export async function processLedgerEvent(event: ChainEvent, replay = false): Promise<EventResult> {
+  const id = getEventId(event)
+  const toResult = (status: EventOutcome, message: string, attempts: number): EventResult => ({
+    id, name: event.name, txHash: event.txHash, logIndex: event.logIndex, status, message, attempts,
+  })
+
+  if (!await lockEvent(id)) {
+    return toResult('locked', 'Event is being processed', 0)
+  }
+
+  try {
+    const previous = await getLedgerEntry(id)
+    if (previous?.status === 'processed' || previous?.status === 'ignored') {
+      return toResult('duplicate', previous.message, previous.attempts)
+    }
+    if (previous?.status === 'dead' && !replay) {
+      return toResult('dead', previous.message, previous.attempts)
+    }
+    if (previous?.status === 'failed' && !replay && Date.parse(previous.nextAttemptAt as string) > Date.now()) {
+      return toResult('scheduled', previous.message, previous.attempts)
+    }
+
+    console.log(`🔔 ${event.name}${event.removed ? ' (removed)' : ''} from ${event.provider}`, event.txHash, event.logIndex)
+    const outcome = await runHandler(event)
+    // A replay starts the attempts over, a dead event that fails again gets the full retry policy
+    const entry = await recordEventAttempt(event, replay && previous ? { ...previous, attempts: 0 } : previous, outcome)
+    // The log may be removed and included again by another reorg, each time it is processed again
+    if (outcome.status !== 'failed') {
+      await forgetLedgerEntry(getEventId({ ...event, removed: !event.removed }))
+    }
+    return toResult(entry.status === 'dead' ? 'dead' : outcome.status, outcome.message, entry.attempts)
+  } finally {
+    await unlockEvent(id)
+  }
+}
+
+/**
+ * Run every event of a webhook through its handler, in chain order
+ * a failing event does not stop the others, it stays in the ledger for a retry
+ * @returns The result of every event
+ */
+export async function processChainEvents(events: ChainEvent[]) {
+  const results: EventResult[] = []
+  for (const event of events) {
+    results.push(await processLedgerEvent(event))
+  }
+  return results
+}
+
+/**
+ * Retry the failed events whose backoff is over
+ * @param limit - Maximum number of events retried in one call
+ */
+export async function retryDueEvents(limit: number) {
+  const due = (await listDueEvents()).slice(0, limit)
+  const results: EventResult[] = []
+  for (const entry of due) {
+    results.push(await processLedgerEvent(entry.event))
+  }
+  return results
+}
+
+/**
+ * Replay failed or dead events now
+ * @returns The result of every event, null for the ids that are not in the ledger
+ */
+export async function replayEvents(ids: string[]) {
+  const results: (EventResult | null)[] = []
+  for (const id of ids) {
+    const entry = await getLedgerEntry(id)
+    results.push(entry ? await processLedgerEvent(entry.event, true) : null)
+  }
+  return results
+}
@@ -0,0 +1,142 @@
+export const FEED_FORMATS = ['rss', 'atom', 'json'] as const
+
+export type FeedFormat = typeof FEED_FORMATS[number]
+
+export const FEED_CONTENT_TYPES: Record<FeedFormat, string> = {
+  rss: 'application/rss+xml; charset=utf-8',
+  atom: 'application/atom+xml; charset=utf-8',
+  json: 'application/feed+json; charset=utf-8',
+}
+
+export interface FeedEntry {
+  postId: string
+  url: string
+  title: string
+  author: string
+  publishedAt: string
+  tags: string[]
+  /** Plain text teaser, the post description */
+  summary: string
+  /** Rendered HTML excerpt, only for free posts */
+  contentHtml: string | null
+  image: string | null
+}
+
+export interface Feed {
+  title: string
+  description: string
+  /** Page the feed is about */
+  homeUrl: string
+  /** URL of the feed itself */
+  feedUrl: string
+  updatedAt: string
+  entries: FeedEntry[]
+}
+
+export const isFeedFormat = (format: string): format is FeedFormat => {
+  return (FEED_FORMATS as readonly string[]).includes(format)
+}
+
+const escapeXml = (text: string) => {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;')
+}
+
+const buildRss = (feed: Feed) => {
+  const items = feed.entries.map(entry => [
+    '    <item>',
+    `      <title>${escapeXml(entry.title)}</title>`,
+    `      <link>${escapeXml(entry.url)}</link>`,
+    `      <guid isPermaLink="true">${escapeXml(entry.url)}</guid>`,
+    `      <dc:creator>${escapeXml(entry.author)}</dc:creator>`,
+    `      <pubDate>${new Date(entry.publishedAt).toUTCString()}</pubDate>`,
+    ...entry.tags.map(tag => `      <category>${escapeXml(tag)}</category>`),
+    `      <description>${escapeXml(entry.summary)}</description>`,
+    ...(entry.contentHtml ? [`      <content:encoded>${escapeXml(entry.contentHtml)}</content:encoded>`] : []),
+    ...(entry.image ? [`      <enclosure url="${escapeXml(entry.image)}" length="0" type="image/png"/>`] : []),
+    '    </item>',
+  ].join('\n'))
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom" xmlns:content="http://purl.org/rss/1.0/modules/content/" xmlns:dc="http://purl.org/dc/elements/1.1/">',
+    '  <channel>',
+    `    <title>${escapeXml(feed.title)}</title>`,
+    `    <link>${escapeXml(feed.homeUrl)}</link>`,
+    `    <description>${escapeXml(feed.description)}</description>`,
+    `    <atom:link href="${escapeXml(feed.feedUrl)}" rel="self" type="application/rss+xml"/>`,
+    `    <lastBuildDate>${new Date(feed.updatedAt).toUTCString()}</lastBuildDate>`,
+    ...items,
+    '  </channel>',
+    '</rss>',
+  ].join('\n') + '\n'
+}
+
+const buildAtom = (feed: Feed) => {
+  const entries = feed.entries.map(entry => [
+    '  <entry>',
+    `    <title>${escapeXml(entry.title)}</title>`,
+    `    <link rel="alternate" href="${escapeXml(entry.url)}"/>`,
+    `    <id>${escapeXml(entry.url)}</id>`,
+    `    <author><name>${escapeXml(entry.author)}</name></author>`,
+    `    <published>${entry.publishedAt}</published>`,
+    `    <updated>${entry.publishedAt}</updated>`,
+    ...entry.tags.map(tag => `    <category term="${escapeXml(tag)}"/>`),
+    `    <summary>${escapeXml(entry.summary)}</summary>`,
+    ...(entry.contentHtml ? [`    <content type="html">${escapeXml(entry.contentHtml)}</content>`] : []),
+    ...(entry.image ? [`    <link rel="enclosure" href="${escapeXml(entry.image)}" type="image/png"/>`] : []),
+    '  </entry>',
+  ].join('\n'))
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<feed xmlns="http://www.w3.org/2005/Atom">',
+    `  <title>${escapeXml(feed.title)}</title>`,
+    `  <subtitle>${escapeXml(feed.description)}</subtitle>`,
+    `  <link rel="alternate" href="${escapeXml(feed.homeUrl)}"/>`,
+    `  <link rel="self" href="${escapeXml(feed.feedUrl)}"/>`,
+    `  <id>${escapeXml(feed.feedUrl)}</id>`,
+    `  <updated>${feed.updatedAt}</updated>`,
+    ...entries,
+    '</feed>',
+  ].join('\n') + '\n'
+}
+
+const buildJsonFeed = (feed: Feed) => {
+  return JSON.stringify({
+    version: 'https://jsonfeed.org/version/1.1',
+    title: feed.title,
+    description: feed.description,
+    home_page_url: feed.homeUrl,
+    feed_url: feed.feedUrl,
+    items: feed.entries.map(entry => ({
+      id: entry.url,
+      url: entry.url,
+      title: entry.title,
+      authors: [{ name: entry.author }],
+      date_published: entry.publishedAt,
+      tags: entry.tags,
+      summary: entry.summary,
+      ...(entry.contentHtml ? { content_html: entry.contentHtml } : { content_text: entry.summary }),
+      ...(entry.image ? { image: entry.image } : {}),
+    })),
+  }, null, 2) + '\n'
+}
+
+/**
+ * Serialize a feed as RSS 2.0, Atom 1.0 or JSON Feed 1.1
+ */
+export const buildFeed = (feed: Feed, format: FeedFormat) => {
+  switch (format) {
+    case 'rss':
+      return buildRss(feed)
+    case 'atom':
+      return buildAtom(feed)
+    case 'json':
+      return buildJsonFeed(feed)
+  }
+}
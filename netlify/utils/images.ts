@@ -0,0 +1,205 @@
+import { Image } from 'imagescript'
+
+export type ImageFormat = 'png' | 'jpeg'
+
+const MIME_TYPES: Record<ImageFormat, string> = {
+  png: 'image/png',
+  jpeg: 'image/jpeg',
+}
+
+const EXTENSIONS: Record<ImageFormat, string> = {
+  png: 'png',
+  jpeg: 'jpg',
+}
+
+// Thumbnails outside these bounds are rejected before being decoded
+const MIN_DIMENSION = 200
+const MAX_DIMENSION = 8000
+
+// A decoded image takes 4 bytes per pixel, 4096x4096 is 64 MB in the function memory
+const MAX_PIXELS = 4096 * 4096
+
+/**
+ * Standard thumbnail sizes, every variant is cropped to fill the size
+ * - card is used in the post lists
+ * - social is the Open Graph / Twitter share image
+ * - avatar is the square used in compact lists
+ */
+export const THUMBNAIL_VARIANTS = {
+  card: { width: 600, height: 400 },
+  social: { width: 1200, height: 630 },
+  avatar: { width: 256, height: 256 },
+} as const
+
+export type ThumbnailVariant = 'original' | keyof typeof THUMBNAIL_VARIANTS
+
+export type ThumbnailValidationResult =
+  | { ok: true, format: ImageFormat, width: number, height: number }
+  | { ok: false, status: 413 | 415 | 422, error: string }
+
+const startsWith = (bytes: Uint8Array, signature: number[], offset = 0) => {
+  return signature.every((byte, index) => bytes[offset + index] === byte)
+}
+
+/**
+ * Detect the image format from the magic bytes, the declared MIME type is not trusted
+ */
+export const detectImageFormat = (bytes: Uint8Array): ImageFormat | null => {
+  if (startsWith(bytes, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) {
+    return 'png'
+  }
+  if (startsWith(bytes, [0xff, 0xd8, 0xff])) {
+    return 'jpeg'
+  }
+  return null
+}
+
+const readUint16 = (bytes: Uint8Array, offset: number, littleEndian = false) => {
+  return littleEndian ? bytes[offset] | (bytes[offset + 1] << 8) : (bytes[offset] << 8) | bytes[offset + 1]
+}
+
+const readUint32 = (bytes: Uint8Array, offset: number) => {
+  return ((bytes[offset] << 24) | (bytes[offset + 1] << 16) | (bytes[offset + 2] << 8) | bytes[offset + 3]) >>> 0
+}
+
+/**
+ * Read the dimensions from the image header, without decoding the pixels
+ */
+export const readImageDimensions = (bytes: Uint8Array, format: ImageFormat) => {
+  if (format === 'png') {
+    // IHDR is always the first chunk
+    if (bytes.length < 24 || !startsWith(bytes, [0x49, 0x48, 0x44, 0x52], 12)) {
+      return null
+    }
+    return { width: readUint32(bytes, 16), height: readUint32(bytes, 20) }
+  }
+
+  // Walk the JPEG segments up to the start of frame
+  let offset = 2
+  while (offset + 9 < bytes.length) {
+    if (bytes[offset] !== 0xff) {
+      return null
+    }
+    const marker = bytes[offset + 1]
+    const isStartOfFrame = marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc
+    if (isStartOfFrame) {
+      return { width: readUint16(bytes, offset + 7), height: readUint16(bytes, offset + 5) }
+    }
+    offset += 2 + readUint16(bytes, offset + 2)
+  }
+  return null
+}
+
+/**
+ * Read the EXIF orientation of a JPEG, 1 (as stored) when there is none
+ */
+const readJpegOrientation = (bytes: Uint8Array) => {
+  let offset = 2
+  while (offset + 4 < bytes.length && bytes[offset] === 0xff) {
+    const marker = bytes[offset + 1]
+    const length = readUint16(bytes, offset + 2)
+    // APP1 segment starting with "Exif\0\0"
+    if (marker === 0xe1 && startsWith(bytes, [0x45, 0x78, 0x69, 0x66, 0x00, 0x00], offset + 4)) {
+      const tiff = offset + 10
+      const littleEndian = bytes[tiff] === 0x49
+      const ifd = tiff + (littleEndian
+        ? (bytes[tiff + 4] | (bytes[tiff + 5] << 8) | (bytes[tiff + 6] << 16) | (bytes[tiff + 7] << 24))
+        : readUint32(bytes, tiff + 4))
+      const entries = readUint16(bytes, ifd, littleEndian)
+      for (let i = 0; i < entries; i++) {
+        const entry = ifd + 2 + i * 12
+        if (entry + 10 > bytes.length) {
+          break
+        }
+        if (readUint16(bytes, entry, littleEndian) === 0x0112) {
+          return readUint16(bytes, entry + 8, littleEndian)
+        }
+      }
+      return 1
+    }
+    if (marker === 0xda) {
+      break
+    }
+    offset += 2 + length
+  }
+  return 1
+}
+
+/**
+ * Check an uploaded thumbnail before it is processed
+ * - the actual bytes must be a PNG or a JPEG
+ * - the file must not exceed maxBytes
+ * - each side must be between 200 and 8000 pixels, and the image at most 4096x4096 pixels in total
+ */
+export const validateThumbnail = (bytes: Uint8Array, maxBytes: number): ThumbnailValidationResult => {
+  if (bytes.length > maxBytes) {
+    return { ok: false, status: 413, error: `Thumbnail must not exceed ${maxBytes} bytes` }
+  }
+
+  const format = detectImageFormat(bytes)
+  if (!format) {
+    return { ok: false, status: 415, error: 'Thumbnail must be a PNG or JPEG image' }
+  }
+
+  const dimensions = readImageDimensions(bytes, format)
+  if (!dimensions) {
+    return { ok: false, status: 422, error: 'Thumbnail image is corrupted' }
+  }
+  const { width, height } = dimensions
+  if (width < MIN_DIMENSION || height < MIN_DIMENSION || width > MAX_DIMENSION || height > MAX_DIMENSION) {
+    return { ok: false, status: 422, error: `Thumbnail dimensions must be between ${MIN_DIMENSION} and ${MAX_DIMENSION} pixels, got ${width}x${height}` }
+  }
+  if (width * height > MAX_PIXELS) {
+    return { ok: false, status: 422, error: `Thumbnail must not exceed 4096x4096 pixels in total, got ${width}x${height}` }
+  }
+
+  return { ok: true, format, width, height }
+}
+
+const encodeImage = async (image: Image, format: ImageFormat) => {
+  return format === 'png' ? await image.encode(6) : await image.encodeJPEG(85)
+}
+
+/**
+ * Re-encode the thumbnail and generate the standard sizes
+ * re-encoding drops every metadata chunk (EXIF, GPS, XMP...), the JPEG orientation is applied first
+ * @returns One file per variant, in the format of the upload
+ */
+export async function createThumbnailVariants(bytes: Uint8Array, format: ImageFormat): Promise<Record<ThumbnailVariant, File>> {
+  // The header is checked again, an image is never decoded above the pixel budget
+  const dimensions = readImageDimensions(bytes, format)
+  if (!dimensions || dimensions.width * dimensions.height > MAX_PIXELS) {
+    throw new Error('Thumbnail exceeds the pixel budget')
+  }
+  const image = await Image.decode(bytes)
+
+  if (format === 'jpeg') {
+    const orientation = readJpegOrientation(bytes)
+    if (orientation === 3) {
+      image.rotate(180)
+    } else if (orientation === 6) {
+      image.rotate(90)
+    } else if (orientation === 8) {
+      image.rotate(270)
+    }
+  }
+
+  const toFile = async (variant: ThumbnailVariant, variantImage: Image) => {
+    const name = variant === 'original' ? `thumbnail.${EXTENSIONS[format]}` : `thumbnail-${variant}.${EXTENSIONS[format]}`
+    return new File([await encodeImage(variantImage, format) as BlobPart], name, { type: MIME_TYPES[format] })
+  }
+
+  const variants = { original: await toFile('original', image) } as Record<ThumbnailVariant, File>
+
+  // The original is encoded, the sizes are cropped from the image scaled down to just cover each of them
+  const sizes = Object.values(THUMBNAIL_VARIANTS)
+  const scale = Math.max(...sizes.map(({ width, height }) => Math.max(width / image.width, height / image.height)))
+  if (scale < 1) {
+    image.resize(Math.ceil(image.width * scale), Math.ceil(image.height * scale))
+  }
+
+  for (const [variant, { width, height }] of Object.entries(THUMBNAIL_VARIANTS)) {
+    variants[variant as ThumbnailVariant] = await toFile(variant as ThumbnailVariant, image.clone().cover(width, height))
+  }
+  return variants
+}
@@ -0,0 +1,156 @@
+import { getStore } from '@netlify/blobs'
+import { getStorageBackend } from './shared.ts'
+
+/**
+ * Minimal key-value store used for server-side state (nonces, sessions, ledgers...)
+ * - "blobs" backend persists to Netlify Blobs and is shared by every edge function
+ * - "memory" backend lives in the isolate and is meant for local dev and tests
+ */
+export interface KeyValueStore {
+  get<T>(key: string): Promise<T | null>
+  set<T>(key: string, value: T, ttlSeconds?: number): Promise<void>
+  /**
+   * Writes the value only if the key is absent or expired
+   * @returns true if the value was written, false if a live value already exists
+   */
+  create<T>(key: string, value: T, ttlSeconds?: number): Promise<boolean>
+  /**
+   * Read-modify-write of a value, applied again when another write happened in between
+   * @param apply - Returns the new value, or null to leave the key untouched
+   * @returns The stored value
+   */
+  update<T>(key: string, apply: (value: T | null) => T | null, ttlSeconds?: number): Promise<T | null>
+  delete(key: string): Promise<void>
+  list(prefix: string): Promise<string[]>
+}
+
+// Concurrent updates of a key are applied again this many times before giving up
+const UPDATE_ATTEMPTS = 10
+
+interface Entry<T> {
+  value: T
+  expiresAt: number | null
+}
+
+const toEntry = <T>(value: T, ttlSeconds?: number): Entry<T> => ({
+  value,
+  expiresAt: ttlSeconds ? Date.now() + ttlSeconds * 1000 : null,
+})
+
+const isLive = (entry: Entry<unknown> | null | undefined): entry is Entry<unknown> => {
+  return !!entry && (entry.expiresAt === null || entry.expiresAt > Date.now())
+}
+
+const memoryStores = new Map<string, Map<string, Entry<unknown>>>()
+
+export const createMemoryStore = (name: string): KeyValueStore => {
+  if (!memoryStores.has(name)) {
+    memoryStores.set(name, new Map())
+  }
+  const entries = memoryStores.get(name) as Map<string, Entry<unknown>>
+
+  return {
+    async get<T>(key: string) {
+      const entry = entries.get(key)
+      if (!isLive(entry)) {
+        entries.delete(key)
+        return null
+      }
+      return entry.value as T
+    },
+    async set<T>(key: string, value: T, ttlSeconds?: number) {
+      entries.set(key, toEntry(value, ttlSeconds))
+    },
+    async create<T>(key: string, value: T, ttlSeconds?: number) {
+      if (isLive(entries.get(key))) {
+        return false
+      }
+      entries.set(key, toEntry(value, ttlSeconds))
+      return true
+    },
+    async update<T>(key: string, apply: (value: T | null) => T | null, ttlSeconds?: number) {
+      const entry = entries.get(key)
+      const current = isLive(entry) ? entry.value as T : null
+      const value = apply(current)
+      if (value === null) {
+        return current
+      }
+      entries.set(key, toEntry(value, ttlSeconds))
+      return value
+    },
+    async delete(key: string) {
+      entries.delete(key)
+    },
+    async list(prefix: string) {
+      return [...entries.entries()]
+        .filter(([key, entry]) => key.startsWith(prefix) && isLive(entry))
+        .map(([key]) => key)
+    },
+  }
+}
+
+export const createBlobStore = (name: string): KeyValueStore => {
+  const store = getStore({ name, consistency: 'strong' })
+
+  return {
+    async get<T>(key: string) {
+      const entry = await store.get(key, { type: 'json' }) as Entry<T> | null
+      return isLive(entry) ? entry.value as T : null
+    },
+    async set<T>(key: string, value: T, ttlSeconds?: number) {
+      await store.setJSON(key, toEntry(value, ttlSeconds))
+    },
+    async create<T>(key: string, value: T, ttlSeconds?: number) {
+      const created = await store.setJSON(key, toEntry(value, ttlSeconds), { onlyIfNew: true })
+      if (created.modified) {
+        return true
+      }
+
+      // The key exists, it can only be claimed again once the previous value expired
+      const existing = await store.getWithMetadata(key, { type: 'json' })
+      if (!existing || isLive(existing.data) || !existing.etag) {
+        return false
+      }
+      const replaced = await store.setJSON(key, toEntry(value, ttlSeconds), { onlyIfMatch: existing.etag })
+      return replaced.modified
+    },
+    async update<T>(key: string, apply: (value: T | null) => T | null, ttlSeconds?: number) {
+      for (let attempt = 0; attempt < UPDATE_ATTEMPTS; attempt++) {
+        const existing = await store.getWithMetadata(key, { type: 'json' })
+        const current = existing && isLive(existing.data) ? existing.data.value as T : null
+        const value = apply(current)
+        if (value === null) {
+          return current
+        }
+
+        // The write only lands if nobody wrote the key since it was read
+        const written = existing?.etag
+          ? await store.setJSON(key, toEntry(value, ttlSeconds), { onlyIfMatch: existing.etag })
+          : await store.setJSON(key, toEntry(value, ttlSeconds), { onlyIfNew: true })
+        if (written.modified) {
+          return value
+        }
+      }
+      throw new Error(`Too many concurrent updates of ${key}`)
+    },
+    async delete(key: string) {
+      await store.delete(key)
+    },
+    async list(prefix: string) {
+      const { blobs } = await store.list({ prefix })
+      return blobs.map(blob => blob.key)
+    },
+  }
+}
+
+const stores = new Map<string, KeyValueStore>()
+
+/**
+ * Returns the store with the given name for the configured STORAGE_BACKEND
+ */
+export const getKeyValueStore = (name: string): KeyValueStore => {
+  if (!stores.has(name)) {
+    stores.set(name, getStorageBackend() === 'memory' ? createMemoryStore(name) : createBlobStore(name))
+  }
+  return stores.get(name) as KeyValueStore
+}
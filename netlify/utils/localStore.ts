@@ -0,0 +1,241 @@
+import { randomHex } from './shared.ts'
+import type { ContentStore, FileQuery, StoredFile, StoredGroup } from './storage.ts'
+
+interface LocalFile extends StoredFile {
+  network: 'private' | 'public'
+}
+
+interface LocalIndex {
+  files: LocalFile[]
+  groups: (StoredGroup & { created_at: string })[]
+}
+
+const BASE32_ALPHABET = 'abcdefghijklmnopqrstuvwxyz234567'
+
+const toBase32 = (bytes: Uint8Array) => {
+  let output = ''
+  let buffer = 0
+  let bits = 0
+  for (const byte of bytes) {
+    buffer = (buffer << 8) | byte
+    bits += 8
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(buffer >>> (bits - 5)) & 31]
+      bits -= 5
+    }
+  }
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(buffer << (5 - bits)) & 31]
+  }
+  return output
+}
+
+/**
+ * CIDv1 of the raw bytes (raw codec, sha2-256 multihash, base32), the same CID
+ * IPFS gives a single-block file uploaded with raw leaves
+ */
+export const computeCid = async (bytes: Uint8Array) => {
+  const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', bytes as BufferSource))
+  const cid = new Uint8Array([0x01, 0x55, 0x12, 0x20, ...digest])
+  return `b${toBase32(cid)}`
+}
+
+const matchesQuery = (file: LocalFile, query: FileQuery) => {
+  if (file.network !== 'private') {
+    return false
+  }
+  if (query.cid && file.cid !== query.cid) {
+    return false
+  }
+  if (query.group && file.group_id !== query.group) {
+    return false
+  }
+  return Object.entries(query.keyvalues || {}).every(([key, value]) => file.keyvalues[key] === value)
+}
+
+/**
+ * A page of items, page tokens are offsets
+ */
+const paginate = <T>(items: T[], query: { limit?: number, pageToken?: string }) => {
+  const offset = query.pageToken ? parseInt(query.pageToken) || 0 : 0
+  const limit = query.limit || items.length
+  const page = items.slice(offset, offset + limit)
+  const nextOffset = offset + page.length
+  return {
+    items: page,
+    next_page_token: nextOffset < items.length ? `${nextOffset}` : null,
+  }
+}
+
+// Strip the backend-only fields before handing files out
+const toStoredFile = ({ network: _network, ...file }: LocalFile): StoredFile => ({ ...file, keyvalues: { ...file.keyvalues } })
+
+/**
+ * Content store kept on the local filesystem, for offline development and tests
+ * - content is written to <dir>/blocks/<cid>, metadata to <dir>/index.json
+ * - page tokens are offsets into the sorted list of matching files
+ * @param dir - Directory to keep the content in, created on first write
+ */
+export const createLocalStore = (dir: string): ContentStore => {
+  const indexPath = `${dir}/index.json`
+  const blocksDir = `${dir}/blocks`
+
+  // node:fs is only available when running locally, not on the edge
+  const fs = () => import('node:fs/promises')
+
+  const readIndex = async (): Promise<LocalIndex> => {
+    try {
+      const { readFile } = await fs()
+      return JSON.parse(await readFile(indexPath, 'utf8'))
+    } catch (error: any) {
+      if (error?.code === 'ENOENT') {
+        return { files: [], groups: [] }
+      }
+      throw error
+    }
+  }
+
+  // Writes are serialized so concurrent requests cannot drop each other's updates
+  let pending: Promise<unknown> = Promise.resolve()
+  const updateIndex = <T>(update: (index: LocalIndex) => T | Promise<T>): Promise<T> => {
+    const run = pending.then(async () => {
+      const { mkdir, writeFile } = await fs()
+      const index = await readIndex()
+      const result = await update(index)
+      await mkdir(dir, { recursive: true })
+      await writeFile(indexPath, JSON.stringify(index, null, 2))
+      return result
+    })
+    pending = run.catch(() => undefined)
+    return run
+  }
+
+  const listMatching = async (query: FileQuery = {}) => {
+    const { files } = await readIndex()
+    const direction = query.order === 'ASC' ? 1 : -1
+    return files
+      .filter(file => matchesQuery(file, query))
+      .sort((a, b) => direction * a.created_at.localeCompare(b.created_at))
+  }
+
+  const storeBytes = async (bytes: Uint8Array, mimeType: string, network: LocalFile['network'], name: string, keyvalues: Record<string, string> = {}) => {
+    const cid = await computeCid(bytes)
+    const { mkdir, writeFile } = await fs()
+    await mkdir(blocksDir, { recursive: true })
+    await writeFile(`${blocksDir}/${cid}`, bytes)
+
+    const file: LocalFile = {
+      id: crypto.randomUUID(),
+      name,
+      cid,
+      size: bytes.byteLength,
+      mime_type: mimeType,
+      keyvalues: { ...keyvalues },
+      group_id: null,
+      created_at: new Date().toISOString(),
+      network,
+    }
+    await updateIndex(index => {
+      index.files.push(file)
+    })
+    return toStoredFile(file)
+  }
+
+  return {
+    async listFiles(query = {}) {
+      const { items, next_page_token } = paginate(await listMatching(query), query)
+      return { files: items.map(toStoredFile), next_page_token }
+    },
+
+    async listAllFiles(query) {
+      return (await listMatching(query)).map(toStoredFile)
+    },
+
+    async uploadJson(data, metadata = {}) {
+      const bytes = new TextEncoder().encode(JSON.stringify(data))
+      return await storeBytes(bytes, 'application/json', 'private', metadata.name || 'data.json', metadata.keyvalues)
+    },
+
+    async uploadPublicFile(file, metadata = {}) {
+      const bytes = new Uint8Array(await file.arrayBuffer())
+      return await storeBytes(bytes, file.type || 'application/octet-stream', 'public', metadata.name || file.name, metadata.keyvalues)
+    },
+
+    async listPublicFiles(query = {}) {
+      const { files } = await readIndex()
+      const keyvalues = query.keyvalues || {}
+      const matching = files
+        .filter(file => file.network === 'public')
+        .filter(file => Object.entries(keyvalues).every(([key, value]) => file.keyvalues[key] === value))
+      const { items, next_page_token } = paginate(matching, query)
+      return { files: items.map(toStoredFile), next_page_token }
+    },
+
+    async updateFile(id, metadata) {
+      return await updateIndex(index => {
+        const file = index.files.find(file => file.id === id)
+        if (!file) {
+          throw new Error(`File ${id} not found`)
+        }
+        if (metadata.name) {
+          file.name = metadata.name
+        }
+        file.keyvalues = { ...file.keyvalues, ...metadata.keyvalues }
+        return toStoredFile(file)
+      })
+    },
+
+    async deleteFiles(ids) {
+      return await updateIndex(index => {
+        const deleted = ids.map(id => ({ id, status: index.files.some(file => file.id === id) ? 'OK' : 'Not Found' }))
+        index.files = index.files.filter(file => !ids.includes(file.id))
+        return deleted
+      })
+    },
+
+    async createGroup(name) {
+      const group = { id: randomHex(16), name, created_at: new Date().toISOString() }
+      await updateIndex(index => {
+        index.groups.push(group)
+      })
+      return { id: group.id, name: group.name }
+    },
+
+    async addToGroup(groupId, fileIds) {
+      await updateIndex(index => {
+        if (!index.groups.some(group => group.id === groupId)) {
+          throw new Error(`Group ${groupId} not found`)
+        }
+        for (const file of index.files) {
+          if (fileIds.includes(file.id)) {
+            file.group_id = groupId
+          }
+        }
+      })
+    },
+
+    async listGroups(query = {}) {
+      const { groups } = await readIndex()
+      const { items, next_page_token } = paginate(groups, query)
+      return { groups: items.map(group => ({ id: group.id, name: group.name })), next_page_token }
+    },
+
+    async getContent(cid) {
+      const { files } = await readIndex()
+      const file = files.find(file => file.cid === cid)
+      if (!file) {
+        throw new Error(`Content ${cid} not found`)
+      }
+
+      const { readFile } = await fs()
+      const bytes = await readFile(`${blocksDir}/${cid}`)
+      if (file.mime_type === 'application/json') {
+        return { data: JSON.parse(new TextDecoder().decode(bytes)), contentType: file.mime_type }
+      }
+      if (file.mime_type.startsWith('text/')) {
+        return { data: new TextDecoder().decode(bytes), contentType: file.mime_type }
+      }
+      return { data: new Blob([bytes], { type: file.mime_type }), contentType: file.mime_type }
+    },
+  }
+}
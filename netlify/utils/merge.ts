@@ -0,0 +1,147 @@
+export interface MergeResult {
+  merged: unknown
+  conflicts: string[]
+}
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> => {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+const isEqual = (a: unknown, b: unknown): boolean => {
+  if (a === b) {
+    return true
+  }
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((item, index) => isEqual(item, b[index]))
+  }
+  if (isPlainObject(a) && isPlainObject(b)) {
+    const keys = Object.keys(a)
+    return keys.length === Object.keys(b).length && keys.every(key => key in b && isEqual(a[key], b[key]))
+  }
+  return false
+}
+
+/**
+ * Longest common subsequence of two arrays
+ * @returns The index in other of every matched item of base
+ */
+const matchItems = (base: unknown[], other: unknown[]) => {
+  const lengths = Array.from({ length: base.length + 1 }, () => new Array<number>(other.length + 1).fill(0))
+  for (let i = base.length - 1; i >= 0; i--) {
+    for (let j = other.length - 1; j >= 0; j--) {
+      lengths[i][j] = isEqual(base[i], other[j]) ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1])
+    }
+  }
+
+  const matches = new Map<number, number>()
+  let i = 0
+  let j = 0
+  while (i < base.length && j < other.length) {
+    if (isEqual(base[i], other[j])) {
+      matches.set(i, j)
+      i++
+      j++
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      i++
+    } else {
+      j++
+    }
+  }
+  return matches
+}
+
+/**
+ * diff3 of arrays, items kept unchanged by both sides split them into chunks merged one by one
+ * a chunk changed on one side takes that side, a chunk changed on both sides is merged item by item
+ * when no side inserted or removed items in it, otherwise it is a conflict resolved to theirs
+ */
+const mergeArray = (base: unknown[], ours: unknown[], theirs: unknown[], path: string, conflicts: string[]) => {
+  const oursMatches = matchItems(base, ours)
+  const theirsMatches = matchItems(base, theirs)
+  const merged: unknown[] = []
+  let baseStart = 0
+  let oursStart = 0
+  let theirsStart = 0
+
+  for (let index = 0; index <= base.length; index++) {
+    const isEnd = index === base.length
+    if (!isEnd && !(oursMatches.has(index) && theirsMatches.has(index))) {
+      continue
+    }
+    const oursEnd = isEnd ? ours.length : oursMatches.get(index) as number
+    const theirsEnd = isEnd ? theirs.length : theirsMatches.get(index) as number
+
+    const baseChunk = base.slice(baseStart, index)
+    const oursChunk = ours.slice(oursStart, oursEnd)
+    const theirsChunk = theirs.slice(theirsStart, theirsEnd)
+    if (isEqual(baseChunk, oursChunk)) {
+      merged.push(...theirsChunk)
+    } else if (isEqual(baseChunk, theirsChunk) || isEqual(oursChunk, theirsChunk)) {
+      merged.push(...oursChunk)
+    } else if (oursChunk.length === baseChunk.length && theirsChunk.length === baseChunk.length) {
+      const offset = merged.length
+      merged.push(...baseChunk.map((item, chunkIndex) => {
+        return mergeValue(item, oursChunk[chunkIndex], theirsChunk[chunkIndex], `${path}/${offset + chunkIndex}`, conflicts)
+      }))
+    } else {
+      conflicts.push(`${path}/${merged.length}`)
+      merged.push(...theirsChunk)
+    }
+
+    if (!isEnd) {
+      merged.push(base[index])
+      baseStart = index + 1
+      oursStart = oursEnd + 1
+      theirsStart = theirsEnd + 1
+    }
+  }
+  return merged
+}
+
+const mergeValue = (base: unknown, ours: unknown, theirs: unknown, path: string, conflicts: string[]): unknown => {
+  if (isEqual(ours, theirs)) {
+    return ours
+  }
+  if (isEqual(base, ours)) {
+    return theirs
+  }
+  if (isEqual(base, theirs)) {
+    return ours
+  }
+
+  if (isPlainObject(ours) && isPlainObject(theirs)) {
+    const baseObject = isPlainObject(base) ? base : {}
+    const merged: Record<string, unknown> = {}
+    const keys = new Set([...Object.keys(theirs), ...Object.keys(ours)])
+    for (const key of keys) {
+      const value = mergeValue(baseObject[key], ours[key], theirs[key], `${path}/${key}`, conflicts)
+      if (value !== undefined) {
+        merged[key] = value
+      }
+    }
+    return merged
+  }
+
+  if (Array.isArray(base) && Array.isArray(ours) && Array.isArray(theirs)) {
+    return mergeArray(base, ours, theirs, path, conflicts)
+  }
+
+  conflicts.push(path || '/')
+  return theirs
+}
+
+/**
+ * Three-way merge of JSON documents
+ * changes made on only one side are kept, values changed differently on both sides
+ * are reported as conflicts (JSON pointer paths) and resolved to theirs
+ * arrays such as the document blocks are merged with a diff3, blocks inserted or removed on one side do not conflict
+ * @param base - The document both sides were edited from
+ * @param ours - The document being saved
+ * @param theirs - The document saved in the meantime
+ * @returns The merged document and the conflicting paths
+ */
+export function mergeJson(base: unknown, ours: unknown, theirs: unknown): MergeResult {
+  const conflicts: string[] = []
+  const merged = mergeValue(base, ours, theirs, '', conflicts)
+  return { merged, conflicts }
+}
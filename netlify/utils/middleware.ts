@@ -0,0 +1,44 @@
+import { createMiddleware } from 'hono/factory'
+import { getAdminAddresses } from './shared.ts'
+import { verifyJWT, type JwtPayload, type Scope } from './tokens.ts'
+
+export type AuthEnv = {
+  Variables: {
+    address: string
+    jwt: JwtPayload
+  }
+}
+
+/**
+ * Requires a valid Bearer JWT carrying every given scope.
+ * The authenticated address is available as c.get('address'), routes must not trust
+ * addresses from query params or bodies for identity.
+ * The admin scope is only honored while the address is still listed in ADMIN_ADDRESSES.
+ */
+export const requireAuth = (...scopes: Scope[]) => createMiddleware<AuthEnv>(async (c, next) => {
+  const authHeader = c.req.header('Authorization')
+  if (!authHeader || !authHeader.startsWith('Bearer ')) {
+    return c.json({ error: 'JWT token required' }, { status: 401 })
+  }
+
+  const token = authHeader.substring(7)
+  const jwtPayload = await verifyJWT(token)
+  if (!jwtPayload) {
+    return c.json({ error: 'Invalid or expired token' }, { status: 401 })
+  }
+
+  const address = jwtPayload.address.toLowerCase()
+  const missingScope = scopes.find(scope => {
+    if (!jwtPayload.scopes.includes(scope)) {
+      return true
+    }
+    return scope === 'admin' && !getAdminAddresses().includes(address)
+  })
+  if (missingScope) {
+    return c.json({ error: `Missing required scope ${missingScope}` }, { status: 403 })
+  }
+
+  c.set('address', address)
+  c.set('jwt', jwtPayload)
+  await next()
+})
@@ -0,0 +1,58 @@
+import { getKeyValueStore, type KeyValueStore } from './kv.ts'
+import { randomHex } from './shared.ts'
+
+// Nonces must be used within 5 minutes of being issued
+export const NONCE_TTL_SECONDS = 5 * 60
+
+export interface IssuedNonce {
+  nonce: string
+  address: string
+  expiresAt: number
+}
+
+/**
+ * Server-issued, single-use nonces bound to an address
+ */
+export interface NonceStore {
+  issue(address: string): Promise<IssuedNonce>
+  /**
+   * Marks the nonce as used
+   * @returns true only the first time a live nonce issued to this address is consumed
+   */
+  consume(nonce: string, address: string): Promise<boolean>
+}
+
+export const createNonceStore = (kv: KeyValueStore): NonceStore => ({
+  async issue(address: string) {
+    const nonce = randomHex(16)
+    const issued = {
+      nonce,
+      address: address.toLowerCase(),
+      expiresAt: Date.now() + NONCE_TTL_SECONDS * 1000,
+    }
+    await kv.set(`nonce:${nonce}`, issued, NONCE_TTL_SECONDS)
+    return issued
+  },
+
+  async consume(nonce: string, address: string) {
+    if (!nonce || !/^[a-f0-9]{32}$/.test(nonce)) {
+      return false
+    }
+
+    const issued = await kv.get<IssuedNonce>(`nonce:${nonce}`)
+    if (!issued || issued.address !== address.toLowerCase()) {
+      return false
+    }
+
+    // Claiming the "used" marker is atomic, so concurrent replays cannot both succeed
+    const claimed = await kv.create(`used:${nonce}`, true, NONCE_TTL_SECONDS)
+    if (!claimed) {
+      return false
+    }
+
+    await kv.delete(`nonce:${nonce}`)
+    return true
+  },
+})
+
+export const getNonceStore = () => createNonceStore(getKeyValueStore('nonces'))
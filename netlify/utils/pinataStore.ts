@@ -0,0 +1,145 @@
+import { getPinataConfig } from './shared.ts'
+import type { ContentStore, FileQuery, StoredFile } from './storage.ts'
+
+const filterFiles = (query: FileQuery = {}) => {
+  const { pinata } = getPinataConfig()
+
+  let filter = pinata.files.private.list()
+  if (query.cid) {
+    filter = filter.cid(query.cid)
+  }
+  if (query.group) {
+    filter = filter.group(query.group)
+  }
+  if (query.keyvalues) {
+    filter = filter.keyvalues(query.keyvalues)
+  }
+  if (query.order) {
+    filter = filter.order(query.order)
+  }
+  if (query.limit) {
+    filter = filter.limit(query.limit)
+  }
+  if (query.pageToken) {
+    filter = filter.pageToken(query.pageToken)
+  }
+  return filter
+}
+
+/**
+ * Content store backed by Pinata private files, groups and the private gateway
+ */
+export const createPinataStore = (): ContentStore => ({
+  async listFiles(query) {
+    const response = await filterFiles(query)
+    return {
+      files: response.files || [],
+      next_page_token: response.next_page_token || null,
+    }
+  },
+
+  async listAllFiles(query) {
+    return await filterFiles(query).all()
+  },
+
+  async uploadJson(data, metadata = {}) {
+    const { pinata } = getPinataConfig()
+
+    let upload = pinata.upload.private.json(data as object)
+    if (metadata.name) {
+      upload = upload.name(metadata.name)
+    }
+    if (metadata.keyvalues) {
+      upload = upload.keyvalues(metadata.keyvalues)
+    }
+    return await upload as StoredFile
+  },
+
+  async uploadPublicFile(file, metadata = {}) {
+    const { pinata } = getPinataConfig()
+
+    let upload = pinata.upload.public.file(file)
+    if (metadata.name) {
+      upload = upload.name(metadata.name)
+    }
+    if (metadata.keyvalues) {
+      upload = upload.keyvalues(metadata.keyvalues)
+    }
+    return await upload as StoredFile
+  },
+
+  async listPublicFiles(query = {}) {
+    const { pinata } = getPinataConfig()
+
+    let filter = pinata.files.public.list()
+    if (query.keyvalues) {
+      filter = filter.keyvalues(query.keyvalues)
+    }
+    if (query.limit) {
+      filter = filter.limit(query.limit)
+    }
+    if (query.pageToken) {
+      filter = filter.pageToken(query.pageToken)
+    }
+    const response = await filter
+    return {
+      files: response.files || [],
+      next_page_token: response.next_page_token || null,
+    }
+  },
+
+  async updateFile(id, metadata) {
+    const { pinata } = getPinataConfig()
+
+    return await pinata.files.private.update({id,
+      name: metadata.name,
+      keyvalues: metadata.keyvalues,
+    })
+  },
+
+  async deleteFiles(ids) {
+    const { pinata } = getPinataConfig()
+
+    return await pinata.files.private.delete(ids)
+  },
+
+  async createGroup(name) {
+    const { pinata } = getPinataConfig()
+
+    const group = await pinata.groups.private.create({ name })
+    return { id: group.id, name: group.name }
+  },
+
+  async addToGroup(groupId, fileIds) {
+    const { pinata } = getPinataConfig()
+
+    await pinata.groups.private.addFiles({
+      groupId: groupId,
+      files: fileIds,
+    })
+  },
+
+  async listGroups(query = {}) {
+    const { pinata } = getPinataConfig()
+
+    let filter = pinata.groups.private.list()
+    if (query.limit) {
+      filter = filter.limit(query.limit)
+    }
+    if (query.pageToken) {
+      filter = filter.pageToken(query.pageToken)
+    }
+    const response = await filter
+    return {
+      groups: (response.groups || []).map(group => ({ id: group.id, name: group.name })),
+      next_page_token: response.next_page_token || null,
+    }
+  },
+
+  async getContent(cid) {
+    const { pinata } = getPinataConfig()
+
+    const { data, contentType } = await pinata.gateways.private.get(cid)
+    return { data, contentType }
+  },
+})
@@ -0,0 +1,215 @@
+import { ethers } from 'ethers'
+import { marketplace_abi } from '../abis/marketPlace.ts'
+import { provider } from './provider.ts'
+import { getConfirmationPolicy, getMarketplaceAddress } from './shared.ts'
+import { getContentStore, type StoredFile } from './storage.ts'
+import { getKeyValueStore } from './kv.ts'
+import { claimFile, markOnchain } from './confirmations.ts'
+
+// Thumbnails are uploaded before the post transaction, they get a day to be published
+const THUMBNAIL_GRACE_HOURS = 24
+
+/**
+ * Each scan reads one page per run and resumes from its cursor on the next run
+ * - drafts: pending drafts, compared with the contract
+ * - groups: groups without any file
+ * - thumbnails: thumbnails whose group was never published
+ */
+export type ReconcileScan = 'drafts' | 'groups' | 'thumbnails'
+
+export interface ReconcileOptions {
+  /** Report the published drafts without marking them onchain */
+  dryRun: boolean
+  staleDraftDays: number
+  /** Items of each scan checked by one run, at most two contract calls per draft */
+  pageSize: number
+}
+
+export interface ReconcileReport {
+  dryRun: boolean
+  startedAt: string
+  finishedAt: string
+  /** Items checked by this run, by scan */
+  checked: Record<ReconcileScan, number>
+  /** Scans that reached their last page, the next run starts them over */
+  completed: ReconcileScan[]
+  /** Pending drafts found on chain, marked onchain unless dry run */
+  published: { fileId: string, cid: string, owner: string, postId: string }[]
+  orphanedGroups: { id: string, name: string }[]
+  orphanedThumbnails: { fileId: string, cid: string, group: string, variant: string, createdAt: string }[]
+  /** Pending drafts untouched for staleDraftDays */
+  staleDrafts: { fileId: string, cid: string, owner: string, createdAt: string }[]
+  errors: { cid: string, error: string }[]
+}
+
+const getReconcileStore = () => getKeyValueStore('reconcile')
+
+// Dry runs keep their own cursors, a report requested by an admin does not move the scheduled runs
+const getCursorKey = (scan: ReconcileScan, dryRun: boolean) => `cursor:${dryRun ? 'dry-run:' : ''}${scan}`
+
+const getCursor = async (scan: ReconcileScan, dryRun: boolean) => {
+  return await getReconcileStore().get<string>(getCursorKey(scan, dryRun)) || undefined
+}
+
+/**
+ * Move the cursor of a scan once its page is checked
+ * @returns true when the scan reached its last page
+ */
+const saveCursor = async (scan: ReconcileScan, dryRun: boolean, nextPageToken: string | null) => {
+  const store = getReconcileStore()
+  if (nextPageToken) {
+    await store.set(getCursorKey(scan, dryRun), nextPageToken)
+    return false
+  }
+  await store.delete(getCursorKey(scan, dryRun))
+  return true
+}
+
+/**
+ * The post a pending draft was published as
+ * only state with enough confirmations is read, a post that is not final yet is left to the webhooks
+ * @returns The post id, or null when the draft is not on chain
+ */
+const findPublishedPost = async (file: StoredFile, marketplaceContract: ethers.Contract, finalBlock: number) => {
+  const postId = await marketplaceContract.postCidToTokenId(file.cid, { blockTag: finalBlock })
+  if (postId === 0n) {
+    return null
+  }
+  // Identical content gives drafts of different owners the same cid
+  const postInfo = await marketplaceContract.postInfo(postId, { blockTag: finalBlock })
+  return (postInfo.author as string).toLowerCase() === file.keyvalues.owner ? { postId, price: postInfo.priceInNative as bigint } : null
+}
+
+/**
+ * Compare a page of pending drafts with the contract
+ * a draft marked onchain leaves the pending pages, a draft skipped when they shift is checked on the next pass
+ * @returns The groups of the drafts found on chain
+ */
+const reconcilePendingDrafts = async (report: ReconcileReport, options: ReconcileOptions) => {
+  const marketplaceContract = new ethers.Contract(getMarketplaceAddress(), marketplace_abi, provider)
+  const finalBlock = await provider.getBlockNumber() - Math.max(getConfirmationPolicy().confirmations - 1, 0)
+  const staleBefore = Date.now() - options.staleDraftDays * 24 * 60 * 60 * 1000
+
+  const page = await getContentStore().listFiles({
+    keyvalues: { status: "pending" },
+    order: 'ASC',
+    limit: options.pageSize,
+    pageToken: await getCursor('drafts', options.dryRun),
+  })
+
+  const recoveredGroups = new Set<string>()
+  for (const file of page.files) {
+    report.checked.drafts += 1
+    try {
+      const post = await findPublishedPost(file, marketplaceContract, finalBlock)
+      if (post) {
+        report.published.push({ fileId: file.id, cid: file.cid, owner: file.keyvalues.owner, postId: `${post.postId}` })
+        if (file.group_id) {
+          recoveredGroups.add(file.group_id)
+        }
+        if (!options.dryRun) {
+          await claimFile(file, "pending", current => markOnchain(current, `${post.postId}`, {
+            postId: `${post.postId}`,
+            price: `${post.price}`,
+            reconciledAt: new Date().toISOString(),
+          }))
+        }
+      } else if (Date.parse(file.created_at) < staleBefore) {
+        report.staleDrafts.push({ fileId: file.id, cid: file.cid, owner: file.keyvalues.owner, createdAt: file.created_at })
+      }
+    } catch (error) {
+      console.error('Reconcile error:', file.cid, error)
+      report.errors.push({ cid: file.cid, error: error instanceof Error ? error.message : 'Unknown error' })
+    }
+  }
+
+  if (await saveCursor('drafts', options.dryRun, page.next_page_token)) {
+    report.completed.push('drafts')
+  }
+  return recoveredGroups
+}
+
+/**
+ * Report a page of groups without any file, drafts, revisions and posts are private files in their group
+ */
+const reconcileGroups = async (report: ReconcileReport, options: ReconcileOptions) => {
+  const store = getContentStore()
+  const page = await store.listGroups({ limit: options.pageSize, pageToken: await getCursor('groups', options.dryRun) })
+
+  for (const group of page.groups) {
+    report.checked.groups += 1
+    const { files } = await store.listFiles({ group: group.id, limit: 1 })
+    if (files.length === 0) {
+      report.orphanedGroups.push({ id: group.id, name: group.name })
+    }
+  }
+
+  if (await saveCursor('groups', options.dryRun, page.next_page_token)) {
+    report.completed.push('groups')
+  }
+}
+
+/**
+ * Report a page of thumbnails whose group has no onchain or confirming post
+ * @param recoveredGroups - Groups of the drafts found on chain by this run, dry runs included
+ */
+const reconcileThumbnails = async (report: ReconcileReport, options: ReconcileOptions, recoveredGroups: Set<string>) => {
+  const store = getContentStore()
+  const page = await store.listPublicFiles({ limit: options.pageSize, pageToken: await getCursor('thumbnails', options.dryRun) })
+  const thumbnailsBefore = Date.now() - THUMBNAIL_GRACE_HOURS * 60 * 60 * 1000
+
+  // Variants of a thumbnail share their group, each group is read once
+  const publishedGroups = new Map<string, boolean>()
+  const isPublished = async (groupId: string) => {
+    if (!publishedGroups.has(groupId)) {
+      const files = await store.listAllFiles({ group: groupId })
+      publishedGroups.set(groupId, recoveredGroups.has(groupId)
+        || files.some(file => file.keyvalues.status === "onchain" || file.keyvalues.status === "confirming"))
+    }
+    return publishedGroups.get(groupId) as boolean
+  }
+
+  for (const thumbnail of page.files) {
+    const { group, variant } = thumbnail.keyvalues
+    if (!group || !variant) {
+      continue
+    }
+    report.checked.thumbnails += 1
+    if (Date.parse(thumbnail.created_at) < thumbnailsBefore && !await isPublished(group)) {
+      report.orphanedThumbnails.push({ fileId: thumbnail.id, cid: thumbnail.cid, group, variant, createdAt: thumbnail.created_at })
+    }
+  }
+
+  if (await saveCursor('thumbnails', options.dryRun, page.next_page_token)) {
+    report.completed.push('thumbnails')
+  }
+}
+
+/**
+ * Reconcile a page of the drafts with the marketplace contract, for when both webhooks missed a post
+ * - pending drafts published on chain are marked onchain with their token id
+ * - orphaned groups, unpublished thumbnails and stale drafts are only reported
+ * every scan resumes where the previous run stopped, a full pass takes as many runs as pages
+ * @returns The report of this run
+ */
+export async function reconcileDrafts(options: ReconcileOptions): Promise<ReconcileReport> {
+  const report: ReconcileReport = {
+    dryRun: options.dryRun,
+    startedAt: new Date().toISOString(),
+    finishedAt: '',
+    checked: { drafts: 0, groups: 0, thumbnails: 0 },
+    completed: [],
+    published: [],
+    orphanedGroups: [],
+    orphanedThumbnails: [],
+    staleDrafts: [],
+    errors: [],
+  }
+
+  const recoveredGroups = await reconcilePendingDrafts(report, options)
+  await reconcileGroups(report, options)
+  await reconcileThumbnails(report, options, recoveredGroups)
+
+  report.finishedAt = new Date().toISOString()
+  return report
+}
@@ -0,0 +1,214 @@
+import { getEmbedProvider, sanitizeHtml, sanitizeUrl, stripHtml, type Block, type InkDocument } from './document.ts'
+
+export const RENDER_FORMATS = ['html', 'markdown', 'text'] as const
+
+export type RenderFormat = typeof RENDER_FORMATS[number]
+
+export const RENDER_CONTENT_TYPES: Record<RenderFormat, string> = {
+  html: 'text/html; charset=utf-8',
+  markdown: 'text/markdown; charset=utf-8',
+  text: 'text/plain; charset=utf-8',
+}
+
+export const isRenderFormat = (format: string): format is RenderFormat => {
+  return (RENDER_FORMATS as readonly string[]).includes(format)
+}
+
+const escapeHtml = (text: string) => {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;')
+}
+
+const decodeEntities = (text: string) => {
+  return text
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&#(\d+);/g, (_, code) => String.fromCodePoint(parseInt(code)))
+    .replace(/&#x([a-fA-F0-9]+);/g, (_, code) => String.fromCodePoint(parseInt(code, 16)))
+    .replace(/&amp;/g, '&')
+}
+
+const escapeMarkdown = (text: string) => {
+  return text.replace(/([\\`*_[\]<>#|~])/g, '\\$1')
+}
+
+const MARKDOWN_MARKS: Record<string, string> = {
+  b: '**',
+  strong: '**',
+  i: '_',
+  em: '_',
+  s: '~~',
+  code: '`',
+}
+
+/**
+ * Convert sanitized inline HTML to Markdown, tags without a Markdown equivalent keep their text
+ */
+const inlineToMarkdown = (html: string) => {
+  let output = ''
+  let lastIndex = 0
+  let inCode = false
+  const links: string[] = []
+
+  for (const match of html.matchAll(/<(\/?)([a-z]+)([^>]*)>/g)) {
+    const text = decodeEntities(html.slice(lastIndex, match.index))
+    // Code spans are literal, nothing inside them is escaped
+    output += inCode ? text : escapeMarkdown(text)
+    lastIndex = (match.index as number) + match[0].length
+
+    const closing = match[1] === '/'
+    const tag = match[2]
+    if (tag === 'br') {
+      output += '  \n'
+    } else if (tag === 'a') {
+      if (closing) {
+        const href = links.pop()
+        output += href ? `](${href})` : ''
+      } else {
+        const href = match[3].match(/href="([^"]*)"/)
+        links.push(href ? decodeEntities(href[1]).replace(/\(/g, '%28').replace(/\)/g, '%29') : '')
+        output += href ? '[' : ''
+      }
+    } else if (MARKDOWN_MARKS[tag]) {
+      output += MARKDOWN_MARKS[tag]
+      if (tag === 'code') {
+        inCode = !closing
+      }
+    }
+  }
+
+  return output + escapeMarkdown(decodeEntities(html.slice(lastIndex)))
+}
+
+const toPlainText = (html: string) => stripHtml(html.replace(/<br>/g, '\n'))
+
+// Images and embeds whose URL would not pass validation today are left out
+const isRenderable = (block: Block) => {
+  if (block.type === 'image') {
+    return sanitizeUrl(block.src, ['https:', 'ipfs:']) !== null
+  }
+  if (block.type === 'embed') {
+    return sanitizeUrl(block.url, ['https:']) !== null
+  }
+  return true
+}
+
+// Values written into the markup are checked again, whatever validated the document
+const getHeadingLevel = (block: Extract<Block, { type: 'heading' }>) => {
+  return Math.min(6, Math.max(1, Math.trunc(Number(block.level)) || 1))
+}
+
+const getCodeLanguage = (block: Extract<Block, { type: 'code' }>) => {
+  return typeof block.language === 'string' && /^[a-zA-Z0-9+#.-]*$/.test(block.language) ? block.language : ''
+}
+
+const renderHtmlBlock = (block: Block) => {
+  switch (block.type) {
+    case 'paragraph':
+      return `<p>${sanitizeHtml(block.text)}</p>`
+    case 'heading': {
+      const level = getHeadingLevel(block)
+      return `<h${level}>${sanitizeHtml(block.text)}</h${level}>`
+    }
+    case 'image': {
+      const caption = block.caption ? `<figcaption>${escapeHtml(block.caption)}</figcaption>` : ''
+      return `<figure><img src="${escapeHtml(block.src)}" alt="${escapeHtml(block.alt)}" loading="lazy">${caption}</figure>`
+    }
+    case 'code': {
+      const languageName = getCodeLanguage(block)
+      const language = languageName ? ` class="language-${languageName}"` : ''
+      return `<pre><code${language}>${escapeHtml(block.code)}</code></pre>`
+    }
+    case 'embed': {
+      // The provider is derived from the URL again, only known providers become a class
+      const provider = getEmbedProvider(block.url)
+      return `<figure class="embed${provider ? ` embed-${provider}` : ''}"><a href="${escapeHtml(block.url)}" rel="noopener noreferrer nofollow">${escapeHtml(block.url)}</a></figure>`
+    }
+    case 'previewBreak':
+      return ''
+  }
+}
+
+const renderMarkdownBlock = (block: Block) => {
+  switch (block.type) {
+    case 'paragraph':
+      return inlineToMarkdown(sanitizeHtml(block.text))
+    case 'heading':
+      return `${'#'.repeat(getHeadingLevel(block))} ${inlineToMarkdown(sanitizeHtml(block.text)).replace(/\s*\n/g, ' ')}`
+    case 'image': {
+      const image = `![${escapeMarkdown(block.alt)}](<${block.src}>)`
+      return block.caption ? `${image}\n_${escapeMarkdown(block.caption)}_` : image
+    }
+    case 'code': {
+      // The fence must be longer than any backtick run in the code
+      const longestRun = Math.max(0, ...(block.code.match(/`+/g) || []).map(run => run.length))
+      const fence = '`'.repeat(Math.max(3, longestRun + 1))
+      return `${fence}${getCodeLanguage(block)}\n${block.code}\n${fence}`
+    }
+    case 'embed':
+      return `<${block.url}>`
+    case 'previewBreak':
+      return ''
+  }
+}
+
+const renderTextBlock = (block: Block) => {
+  switch (block.type) {
+    case 'paragraph':
+    case 'heading':
+      return toPlainText(block.text)
+    case 'image':
+      return block.caption ? `[Image: ${block.alt}] ${block.caption}` : `[Image: ${block.alt}]`
+    case 'code':
+      return block.code
+    case 'embed':
+      return block.url
+    case 'previewBreak':
+      return ''
+  }
+}
+
+/**
+ * Render a stored document
+ * the output only depends on the document, the same document always renders to the same bytes
+ * - html is a fragment (no <html> or <body>), inline markup is sanitized again on the way out
+ * - markdown is CommonMark, text from the document is escaped
+ * - text keeps no markup at all
+ * @param document - A document validated by parseDocument, stored content is parsed first
+ * @param format - The output format
+ */
+export function renderDocument(document: InkDocument, format: RenderFormat): string {
+  const blocks = document.blocks.filter(isRenderable)
+  const { title, summary } = document
+
+  const parts: string[] = []
+  if (format === 'html') {
+    parts.push(title && `<h1>${escapeHtml(title)}</h1>`, summary && `<p class="summary">${escapeHtml(summary)}</p>`)
+    parts.push(...blocks.map(renderHtmlBlock))
+  } else if (format === 'markdown') {
+    parts.push(title && `# ${escapeMarkdown(title)}`, summary && `> ${escapeMarkdown(summary)}`)
+    parts.push(...blocks.map(renderMarkdownBlock))
+  } else {
+    parts.push(title, summary)
+    parts.push(...blocks.map(renderTextBlock))
+  }
+
+  return parts.filter(part => part !== undefined && part !== '').join('\n\n') + '\n'
+}
+
+/**
+ * Render the beginning of a document, its summary and first text blocks, without the title
+ * @param maxBlocks - Number of paragraph and heading blocks to keep
+ */
+export function renderExcerpt(document: InkDocument, format: RenderFormat, maxBlocks = 3): string {
+  const blocks = document.blocks
+    .filter(block => block.type === 'paragraph' || block.type === 'heading')
+    .slice(0, maxBlocks)
+  return renderDocument({ ...document, title: '', blocks }, format)
+}
@@ -0,0 +1,368 @@
+import { ethers } from 'ethers'
+import { marketplace_abi } from '../abis/marketPlace.ts'
+import { provider } from './provider.ts'
+import { getKeyValueStore } from './kv.ts'
+import { getMarketplaceAddress, getSearchIndexBackend, getSearchIndexFile } from './shared.ts'
+import { getFileDocument } from './drafts.ts'
+import { renderDocument } from './render.ts'
+import { getFileTags, normalizeTag } from './tags.ts'
+import { createEmptyDocument } from './document.ts'
+import { getContentStore, type StoredFile } from './storage.ts'
+
+/**
+ * A published post as kept in the search index
+ * paid post bodies only contribute to the terms, their text is never stored
+ */
+export interface IndexedPost {
+  postId: string
+  cid: string
+  author: string
+  title: string
+  summary: string
+  tags: string[]
+  free: boolean
+  publishedAt: string
+  /** Beginning of the body, free posts only */
+  excerpt: string | null
+  /** Weighted term frequencies */
+  terms: Record<string, number>
+  length: number
+}
+
+export interface SearchIndexStore {
+  put(post: IndexedPost): Promise<void>
+  remove(postId: string): Promise<void>
+  list(): Promise<IndexedPost[]>
+}
+
+export interface SearchQuery {
+  q: string
+  author?: string
+  tag?: string
+  price?: 'free' | 'paid'
+  limit: number
+  offset: number
+}
+
+export interface SearchHit {
+  postId: string
+  cid: string
+  author: string
+  title: string
+  summary: string
+  tags: string[]
+  free: boolean
+  publishedAt: string
+  score: number
+  /** Matching words wrapped in <mark>, the rest HTML-escaped */
+  highlights: {
+    title: string
+    summary: string
+    excerpt: string | null
+  }
+}
+
+export const MAX_SEARCH_RESULTS = 50
+
+// Weight of a term occurrence by the field it appears in
+const FIELD_WEIGHTS = {
+  title: 3,
+  tags: 3,
+  summary: 2,
+  body: 1,
+}
+
+// A term matched by prefix counts less than an exact match
+const PREFIX_MATCH_WEIGHT = 0.5
+
+// BM25 parameters
+const K1 = 1.2
+const B = 0.75
+
+const EXCERPT_LENGTH = 280
+
+// Onchain posts indexed by one reindex request, each one costs a contract call and a content fetch
+const REINDEX_PAGE_SIZE = 25
+
+const STOP_WORDS = new Set(['an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'in', 'is', 'it', 'of', 'on', 'or', 'that', 'the', 'this', 'to', 'was', 'with'])
+
+const normalize = (text: string) => text.normalize('NFKD').replace(/[\u0300-\u036f]/g, '').toLowerCase()
+
+/**
+ * Split text into lowercase terms without diacritics, stop words and one-character terms are dropped
+ */
+export const tokenize = (text: string) => {
+  return (normalize(text).match(/[\p{L}\p{N}]+/gu) || []).filter(term => term.length > 1 && !STOP_WORDS.has(term))
+}
+
+/**
+ * Every post is kept in one snapshot blob, a search reads the whole index with a single read
+ * concurrent webhooks update the snapshot with conditional writes
+ */
+const createKvSearchIndex = (): SearchIndexStore => {
+  const store = getKeyValueStore('search-index')
+  return {
+    async put(post) {
+      await store.update<Record<string, IndexedPost>>('snapshot', (posts) => ({ ...posts, [post.postId]: post }))
+    },
+    async remove(postId) {
+      await store.update<Record<string, IndexedPost>>('snapshot', (posts) => {
+        if (!posts || !posts[postId]) {
+          return null
+        }
+        const { [postId]: _removed, ...rest } = posts
+        return rest
+      })
+    },
+    async list() {
+      return Object.values(await store.get<Record<string, IndexedPost>>('snapshot') || {})
+    },
+  }
+}
+
+const createFileSearchIndex = (path: string): SearchIndexStore => {
+  // node:fs is only available when running locally, not on the edge
+  const fs = () => import('node:fs/promises')
+
+  const read = async (): Promise<Record<string, IndexedPost>> => {
+    try {
+      const { readFile } = await fs()
+      return JSON.parse(await readFile(path, 'utf8'))
+    } catch (error: any) {
+      if (error?.code === 'ENOENT') {
+        return {}
+      }
+      throw error
+    }
+  }
+
+  // Writes are serialized so concurrent updates cannot drop each other
+  let pending: Promise<unknown> = Promise.resolve()
+  const update = (change: (posts: Record<string, IndexedPost>) => void) => {
+    const run = pending.then(async () => {
+      const { mkdir, writeFile } = await fs()
+      const posts = await read()
+      change(posts)
+      await mkdir(path.slice(0, path.lastIndexOf('/')) || '.', { recursive: true })
+      await writeFile(path, JSON.stringify(posts))
+    })
+    pending = run.catch(() => undefined)
+    return run
+  }
+
+  return {
+    async put(post) {
+      await update(posts => {
+        posts[post.postId] = post
+      })
+    },
+    async remove(postId) {
+      await update(posts => {
+        delete posts[postId]
+      })
+    },
+    async list() {
+      return Object.values(await read())
+    },
+  }
+}
+
+let searchIndex: SearchIndexStore | null = null
+
+/**
+ * Returns the search index for the configured SEARCH_INDEX backend
+ */
+export const getSearchIndex = (): SearchIndexStore => {
+  if (!searchIndex) {
+    searchIndex = getSearchIndexBackend() === 'file'
+      ? createFileSearchIndex(getSearchIndexFile())
+      : createKvSearchIndex()
+  }
+  return searchIndex
+}
+
+/**
+ * Build the index entry of a post
+ */
+export const buildIndexedPost = (post: Omit<IndexedPost, 'excerpt' | 'terms' | 'length'> & { body: string }): IndexedPost => {
+  const terms: Record<string, number> = {}
+  let length = 0
+  const addTerms = (text: string, weight: number) => {
+    for (const term of tokenize(text)) {
+      terms[term] = (terms[term] || 0) + weight
+      length += 1
+    }
+  }
+
+  addTerms(post.title, FIELD_WEIGHTS.title)
+  addTerms(post.tags.join(' '), FIELD_WEIGHTS.tags)
+  addTerms(post.summary, FIELD_WEIGHTS.summary)
+  addTerms(post.body, FIELD_WEIGHTS.body)
+
+  const { body, ...fields } = post
+  const excerpt = post.free ? body.replace(/\s+/g, ' ').trim().slice(0, EXCERPT_LENGTH) : null
+  return { ...fields, excerpt, terms, length }
+}
+
+/**
+ * Index a post once the webhook marked its file onchain
+ * the title, description and price come from the marketplace, the body from the stored document
+ */
+export async function indexPublishedPost(file: StoredFile, postId: bigint | string) {
+  const marketplaceContract = new ethers.Contract(getMarketplaceAddress(), marketplace_abi, provider)
+  const postInfo = await marketplaceContract.postInfo(postId)
+
+  // A post without a usable document is found by its on chain title and description
+  const document = await getFileDocument(file) || createEmptyDocument()
+  const title = document.title || postInfo.postTitle
+  const summary = document.summary || postInfo.description
+
+  // Title and summary are indexed on their own fields, not again with the body
+  const body = renderDocument({ ...document, title: '', summary: '' }, 'text')
+  const tags = getFileTags(file)
+
+  await getSearchIndex().put(buildIndexedPost({
+    postId: postId.toString(),
+    cid: file.cid,
+    author: (postInfo.author as string).toLowerCase(),
+    title,
+    summary,
+    tags,
+    free: postInfo.priceInNative == 0,
+    publishedAt: new Date(file.keyvalues.publishedAt || file.created_at).toISOString(),
+    body,
+  }))
+}
+
+/**
+ * Index a page of the onchain posts, for posts published before the search index
+ * files marked onchain without their post id are looked up on the marketplace
+ * @returns The number of posts indexed, the failures and the token of the next page
+ */
+export async function reindexPosts(pageToken?: string) {
+  const page = await getContentStore().listFiles({ keyvalues: { status: "onchain" }, limit: REINDEX_PAGE_SIZE, pageToken })
+  const marketplaceContract = new ethers.Contract(getMarketplaceAddress(), marketplace_abi, provider)
+
+  let indexed = 0
+  const errors: { cid: string, error: string }[] = []
+  for (const file of page.files) {
+    try {
+      const postId = file.keyvalues.postId || `${await marketplaceContract.postCidToTokenId(file.cid)}`
+      if (postId === '0') {
+        errors.push({ cid: file.cid, error: 'Post not found on the marketplace' })
+        continue
+      }
+      await indexPublishedPost(file, postId)
+      indexed += 1
+    } catch (error) {
+      console.error('Reindex error:', file.cid, error)
+      errors.push({ cid: file.cid, error: error instanceof Error ? error.message : 'Unknown error' })
+    }
+  }
+
+  return { indexed, errors, nextPageToken: page.next_page_token }
+}
+
+const escapeHtml = (text: string) => {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;')
+}
+
+/**
+ * The last query term may be a word being typed, it also matches the words it starts
+ */
+const matchesQueryTerm = (word: string, queryTerm: string, prefixTerm: string | undefined) => {
+  return word === queryTerm || (queryTerm === prefixTerm && word.startsWith(queryTerm))
+}
+
+/**
+ * Wrap the words of the text that match a query term in <mark>
+ * @param prefixTerm - The query term matched as a prefix too, the last one
+ */
+export const highlight = (text: string, queryTerms: string[], prefixTerm?: string) => {
+  let output = ''
+  let lastIndex = 0
+  for (const match of text.matchAll(/[\p{L}\p{N}]+/gu)) {
+    output += escapeHtml(text.slice(lastIndex, match.index))
+    lastIndex = (match.index as number) + match[0].length
+
+    const word = normalize(match[0])
+    const matches = queryTerms.some(term => matchesQueryTerm(word, term, prefixTerm))
+    output += matches ? `<mark>${escapeHtml(match[0])}</mark>` : escapeHtml(match[0])
+  }
+  return output + escapeHtml(text.slice(lastIndex))
+}
+
+/**
+ * Weighted frequency of a query term in a post, prefix matches of the last term count half
+ * @returns 0 when the post does not contain the term
+ */
+const termFrequency = (post: IndexedPost, queryTerm: string, prefixTerm: string | undefined) => {
+  let frequency = 0
+  for (const [term, weight] of Object.entries(post.terms)) {
+    if (term === queryTerm) {
+      frequency += weight
+    } else if (matchesQueryTerm(term, queryTerm, prefixTerm)) {
+      frequency += weight * PREFIX_MATCH_WEIGHT
+    }
+  }
+  return frequency
+}
+
+/**
+ * Search the published posts
+ * every query term must match a word exactly, the last one may also be the prefix of a word, results are ranked with BM25
+ * @returns The page of hits and the total number of matching posts
+ */
+export async function searchPosts(query: SearchQuery) {
+  const tokens = tokenize(query.q)
+  const queryTerms = [...new Set(tokens)]
+  const prefixTerm = tokens[tokens.length - 1]
+  const posts = (await getSearchIndex().list()).filter(post => {
+    return (!query.author || post.author === query.author.toLowerCase())
+      && (!query.tag || post.tags.includes(normalizeTag(query.tag)))
+      && (!query.price || post.free === (query.price === 'free'))
+  })
+  if (queryTerms.length === 0 || posts.length === 0) {
+    return { hits: [] as SearchHit[], total: 0 }
+  }
+
+  const averageLength = posts.reduce((sum, post) => sum + post.length, 0) / posts.length
+  const frequencies = posts.map(post => queryTerms.map(term => termFrequency(post, term, prefixTerm)))
+  const documentFrequencies = queryTerms.map((_, index) => frequencies.filter(post => post[index] > 0).length)
+
+  const ranked = posts
+    .map((post, postIndex) => {
+      const postFrequencies = frequencies[postIndex]
+      if (postFrequencies.some(frequency => frequency === 0)) {
+        return null
+      }
+      const normalizedLength = 1 - B + B * (post.length / (averageLength || 1))
+      const score = postFrequencies.reduce((sum, frequency, termIndex) => {
+        const df = documentFrequencies[termIndex]
+        const idf = Math.log(1 + (posts.length - df + 0.5) / (df + 0.5))
+        return sum + idf * (frequency * (K1 + 1)) / (frequency + K1 * normalizedLength)
+      }, 0)
+      return { post, score }
+    })
+    .filter((result): result is { post: IndexedPost, score: number } => result !== null)
+    .sort((a, b) => b.score - a.score || b.post.publishedAt.localeCompare(a.post.publishedAt))
+
+  const hits = ranked.slice(query.offset, query.offset + query.limit).map(({ post, score }): SearchHit => ({
+    postId: post.postId,
+    cid: post.cid,
+    author: post.author,
+    title: post.title,
+    summary: post.summary,
+    tags: post.tags,
+    free: post.free,
+    publishedAt: post.publishedAt,
+    score: Math.round(score * 1000) / 1000,
+    highlights: {
+      title: highlight(post.title, queryTerms, prefixTerm),
+      summary: highlight(post.summary, queryTerms, prefixTerm),
+      excerpt: post.excerpt === null ? null : highlight(post.excerpt, queryTerms, prefixTerm),
+    },
+  }))
+
+  return { hits, total: ranked.length }
+}
@@ -0,0 +1,69 @@
+import { getKeyValueStore } from './kv.ts'
+
+// Actions a wallet can delegate to a session key, publishing and deleting always need the wallet
+export const DELEGATABLE_ACTIONS = ['CreateFile', 'UpdateFile']
+
+// Session keys can live for at most 7 days
+export const MAX_SESSION_KEY_TTL_SECONDS = 7 * 24 * 60 * 60
+
+export interface SessionKey {
+  owner: string
+  sessionKey: string
+  actions: string[]
+  expiresAt: number
+  createdAt: number
+}
+
+const getSessionKeyStore = () => getKeyValueStore('session-keys')
+
+const sessionKeyId = (owner: string, sessionKey: string) => {
+  return `session:${owner.toLowerCase()}:${sessionKey.toLowerCase()}`
+}
+
+/**
+ * Stores a session key authorized by the owner's wallet
+ * @param expiresAt - Expiry in unix seconds
+ */
+export const createSessionKey = async (owner: string, sessionKey: string, actions: string[], expiresAt: number) => {
+  const record: SessionKey = {
+    owner: owner.toLowerCase(),
+    sessionKey: sessionKey.toLowerCase(),
+    actions,
+    expiresAt,
+    createdAt: Math.floor(Date.now() / 1000),
+  }
+  const ttl = expiresAt - record.createdAt
+  await getSessionKeyStore().set(sessionKeyId(owner, sessionKey), record, ttl)
+  return record
+}
+
+/**
+ * Returns the session key if it is live and allowed to sign the action for the owner
+ */
+export const getSessionKeyForAction = async (owner: string, sessionKey: string, action: string) => {
+  const record = await getSessionKeyStore().get<SessionKey>(sessionKeyId(owner, sessionKey))
+  if (!record || record.expiresAt <= Date.now() / 1000 || !record.actions.includes(action)) {
+    return null
+  }
+  return record
+}
+
+export const listSessionKeys = async (owner: string) => {
+  const store = getSessionKeyStore()
+  const keys = await store.list(`session:${owner.toLowerCase()}:`)
+  const records = await Promise.all(keys.map(key => store.get<SessionKey>(key)))
+  return records.filter((record): record is SessionKey => record !== null)
+}
+
+/**
+ * @returns false if the owner has no such session key
+ */
+export const revokeSessionKey = async (owner: string, sessionKey: string) => {
+  const store = getSessionKeyStore()
+  const id = sessionKeyId(owner, sessionKey)
+  if (!await store.get<SessionKey>(id)) {
+    return false
+  }
+  await store.delete(id)
+  return true
+}
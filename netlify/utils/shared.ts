@@ -1,7 +1,4 @@
-import { ethers } from 'ethers'
-import { sign, verify } from 'hono/jwt'
 import { PinataSDK } from 'pinata'
-import { marketplace_abi } from '../abis/marketPlace.ts'
 
 declare const Deno: {
   env: {
@@ -12,13 +9,50 @@ declare const Deno: {
 // @ts-ignore - Deno specific import
 const crypto = globalThis.crypto
 
-// Create interface for decoding blockchain events
-const iface = new ethers.Interface(marketplace_abi)
+export const randomHex = (length: number) => {
+  const bytes = crypto.getRandomValues(new Uint8Array(length))
+  return Array.from(bytes).map(b => b.toString(16).padStart(2, '0')).join('')
+}
+
+export const sha256Hex = async (value: string) => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(value))
+  return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('')
+}
 
 export const getJwtSecret = () => {
   return Deno.env.get('SECRET_KEY') as string
 }
 
+/**
+ * JWT signing keys by key ID (kid)
+ * - SECRET_KEY / SECRET_KEY_ID is the key new tokens are signed with
+ * - PREVIOUS_SECRET_KEYS ("kid:secret,kid:secret") are still accepted so SECRET_KEY can be rotated
+ */
+export const getJwtKeys = () => {
+  const currentKid = Deno.env.get('SECRET_KEY_ID') || 'default'
+  const keys: Record<string, string> = {}
+
+  const previousKeys = Deno.env.get('PREVIOUS_SECRET_KEYS')
+  if (previousKeys) {
+    for (const entry of previousKeys.split(',')) {
+      const separator = entry.indexOf(':')
+      if (separator > 0) {
+        keys[entry.slice(0, separator).trim()] = entry.slice(separator + 1).trim()
+      }
+    }
+  }
+  keys[currentKid] = getJwtSecret()
+
+  return { currentKid, keys }
+}
+
+/**
+ * Master key the per-post content keys are wrapped with, base64 of 32 bytes
+ */
+export const getContentEncryptionKey = () => {
+  return Deno.env.get('CONTENT_ENCRYPTION_KEY') as string
+}
+
 export const getMarketplaceAddress = () => {
   return Deno.env.get('MARKETPLACE_ADDRESS') as string
 }
@@ -27,6 +61,133 @@ export const getSubgraphSlug = () => {
   return Deno.env.get('SUBGRAPH_URL') as string
 }
 
+/**
+ * Backend for server-side state, "blobs" (Netlify Blobs) or "memory" for local dev and tests
+ */
+export const getStorageBackend = () => {
+  return Deno.env.get('STORAGE_BACKEND') === 'memory' ? 'memory' : 'blobs'
+}
+
+export const getContentStoreBackend = () => {
+  return Deno.env.get('CONTENT_STORE') === 'local' ? 'local' : 'pinata'
+}
+
+export const getLocalContentDir = () => {
+  return Deno.env.get('LOCAL_CONTENT_DIR') || '.netlify/content-store'
+}
+
+/**
+ * Backend of the search index, "kv" (the key-value store) or "file" (a JSON file, for local runs)
+ */
+export const getSearchIndexBackend = () => {
+  return Deno.env.get('SEARCH_INDEX') === 'file' ? 'file' : 'kv'
+}
+
+export const getSearchIndexFile = () => {
+  return Deno.env.get('SEARCH_INDEX_FILE') || '.netlify/search-index.json'
+}
+
+/**
+ * Maximum thumbnail upload size in bytes, 5 MB by default
+ */
+export const getThumbnailMaxBytes = () => {
+  return parseInt(Deno.env.get('THUMBNAIL_MAX_BYTES') || '') || 5 * 1024 * 1024
+}
+
+export const getAdminAddresses = () => {
+  const admins = Deno.env.get('ADMIN_ADDRESSES') || ''
+  return admins.split(',').map(address => address.trim().toLowerCase()).filter(address => address.length > 0)
+}
+
+/**
+ * Retention policy for draft revisions
+ * - DRAFT_REVISION_LIMIT revisions are kept per draft (default 20)
+ * - revisions older than DRAFT_REVISION_MAX_AGE_DAYS are pruned (default 0, no age limit)
+ */
+export const getRevisionRetention = () => ({
+  maxRevisions: parseInt(Deno.env.get('DRAFT_REVISION_LIMIT') || '20'),
+  maxAgeDays: parseInt(Deno.env.get('DRAFT_REVISION_MAX_AGE_DAYS') || '0'),
+})
+
+/**
+ * Tag aliases from TAG_ALIASES, comma-separated alias=tag pairs (e.g. "eth=ethereum,web 3=web3")
+ * @returns The raw pairs, tags.ts normalizes both sides
+ */
+export const getTagAliases = () => {
+  const aliases = Deno.env.get('TAG_ALIASES') || ''
+  return aliases.split(',')
+    .map(pair => pair.split('='))
+    .filter(pair => pair.length === 2 && pair[0].trim().length > 0 && pair[1].trim().length > 0)
+    .map(([alias, tag]) => [alias, tag] as [string, string])
+}
+
+/**
+ * Retry policy of the chain events that failed
+ * - EVENT_MAX_ATTEMPTS attempts before the event is dead-lettered (default 5)
+ * - the delay doubles after each attempt from EVENT_RETRY_BASE_SECONDS (default 60) up to EVENT_RETRY_MAX_SECONDS (default 3600)
+ */
+export const getEventRetryPolicy = () => ({
+  maxAttempts: parseInt(Deno.env.get('EVENT_MAX_ATTEMPTS') || '5'),
+  baseDelaySeconds: parseInt(Deno.env.get('EVENT_RETRY_BASE_SECONDS') || '60'),
+  maxDelaySeconds: parseInt(Deno.env.get('EVENT_RETRY_MAX_SECONDS') || '3600'),
+})
+
+/**
+ * Finality of new posts
+ * - a post is onchain once its block has CONFIRMATIONS confirmations (default 12)
+ * - a post still missing from the chain after CONFIRMATION_TIMEOUT_SECONDS goes back to pending (default 3600)
+ */
+export const getConfirmationPolicy = () => ({
+  confirmations: parseInt(Deno.env.get('CONFIRMATIONS') || '12'),
+  timeoutSeconds: parseInt(Deno.env.get('CONFIRMATION_TIMEOUT_SECONDS') || '3600'),
+})
+
+/**
+ * Scheduled reconciliation of the drafts with the marketplace
+ * - RECONCILE_DRY_RUN=true only reports what would be changed
+ * - drafts untouched for RECONCILE_STALE_DRAFT_DAYS are reported as stale (default 90)
+ * - a run checks RECONCILE_PAGE_SIZE drafts, groups and thumbnails (default 50), the next run resumes after them
+ */
+export const getReconcileConfig = () => ({
+  dryRun: Deno.env.get('RECONCILE_DRY_RUN') === 'true',
+  staleDraftDays: parseInt(Deno.env.get('RECONCILE_STALE_DRAFT_DAYS') || '90'),
+  pageSize: parseInt(Deno.env.get('RECONCILE_PAGE_SIZE') || '50'),
+})
+
+export const getChainId = () => {
+  return parseInt(Deno.env.get('CHAIN_ID') || '11155111')
+}
+
+/**
+ * Hosts that SIWE messages may be issued for.
+ * Falls back to the hosts of the CORS origins when SIWE_DOMAINS is not set, except localhost,
+ * local development sets SIWE_DOMAINS=localhost:8080.
+ */
+export const getSiweDomains = () => {
+  const domains = Deno.env.get('SIWE_DOMAINS')
+  if (domains) {
+    return domains.split(',').map(domain => domain.trim().toLowerCase()).filter(domain => domain.length > 0)
+  }
+  return corsOptions.origin
+    .map(origin => new URL(origin))
+    .filter(url => url.hostname !== 'localhost' && url.hostname !== '127.0.0.1')
+    .map(url => url.host)
+}
+
+/**
+ * Public URL of the frontend, posts are linked as <SITE_URL>/post/<postId>
+ */
+export const getSiteUrl = () => {
+  return (Deno.env.get('SITE_URL') || 'https://inkdao.tech').replace(/\/+$/, '')
+}
+
+/**
+ * Gateway used to link public files (thumbnails), PUBLIC_GATEWAY_URL or ipfs.io
+ */
+export const getPublicGatewayUrl = () => {
+  return (Deno.env.get('PUBLIC_GATEWAY_URL') || 'https://ipfs.io').replace(/\/+$/, '')
+}
+
 export const getPinataConfig = () => {
   const pinataJwt = Deno.env.get('PINATA_JWT')
   const gatewayUrl = Deno.env.get('GATEWAY_URL')
@@ -148,108 +309,6 @@ export async function validateQuickNodeSignature(
   }
 }
 
-export async function verifyJWT(token: string): Promise<{ address: string } | null> {
-  try {
-    const payload = await verify(token, getJwtSecret())
-    if (payload && typeof payload === 'object' && 'address' in payload) {
-      return { address: payload.address as string }
-    }
-    return null
-  } catch (err) {
-    console.error('JWT verification error:', err)
-    return null
-  }
-}
-
-export async function generateJWT(address: string): Promise<string> {
-  const payload = {
-    address: address.toLowerCase(),
-    iat: Math.floor(Date.now() / 1000),
-    exp: Math.floor(Date.now() / 1000) + (2 * 60 * 60) // 2 hours
-  }
-  return await sign(payload, getJwtSecret())
-}
-
-/**
- * Decodes blockchain webhook data and extracts asset information (Alchemy format)
- * @param webhookBody - The webhook body from the blockchain event
- * @returns Decoded asset data including assetCid, or null if not an AssetAdded event
- */
-export function decodeAlchemyWebhookAssetData(webhookBody: any) {
-  try {
-    if (!webhookBody?.event?.data?.block?.logs || webhookBody.event.data.block.logs.length === 0) {
-      return null
-    }
-
-    const log = webhookBody.event.data.block.logs[0]
-    
-    const decodedEvent = iface.parseLog({
-      topics: log.topics,
-      data: log.data
-    })
-    
-    if (!decodedEvent || decodedEvent.name !== 'PostCreated') {
-      return null
-    }
-
-    return {
-      postCid: decodedEvent.args.postCid,
-      postId: decodedEvent.args.tokenId,
-      author: decodedEvent.args.author
-    }
-  } catch (error) {
-    console.error('Error decoding webhook data:', error)
-    return null
-  }
-}
-
-/**
- * Decodes QuickNode webhook data and extracts asset information
- * @param webhookBody - The webhook body from QuickNode
- * @returns Decoded asset data including postCid, or null if not an PostCreated event
- */
-export function decodeQuickNodeWebhookAssetData(webhookBody: any) {
-  try {
-    if (!webhookBody?.matchingReceipts || webhookBody.matchingReceipts.length === 0) {
-      console.error('No matching receipts found in webhook body')
-      return null
-    }
-
-    const receipt = webhookBody.matchingReceipts[0]
-    if (!receipt?.logs || receipt.logs.length === 0) {
-      console.error('No logs found in receipt')
-      return null
-    }
-
-    // Try to find the AssetAdded event in the logs
-    for (const log of receipt.logs) {
-      try {
-        const decodedEvent = iface.parseLog({
-          topics: log.topics,
-          data: log.data
-        })
-        
-        if (decodedEvent && decodedEvent.name === 'PostCreated') {
-          return {
-            postCid: decodedEvent.args.postCid,
-            postId: decodedEvent.args.tokenId,
-            author: decodedEvent.args.author
-          }
-        }
-      } catch (err) {
-        // Skip logs that don't match our ABI
-        continue
-      }
-    }
-
-    console.error('No PostCreated event found in logs')
-    return null
-  } catch (error) {
-    console.error('Error decoding QuickNode webhook data:', error)
-    return null
-  }
-}
-
 
 
 export const corsOptions = {
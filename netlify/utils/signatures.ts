@@ -0,0 +1,103 @@
+import { ethers } from 'ethers'
+import { hashTypedData, isErc6492Signature, erc6492SignatureValidatorByteCode, type TypedDataDomain, type TypedDataParameter } from 'viem'
+import { provider } from './provider.ts'
+
+// bytes4(keccak256("isValidSignature(bytes32,bytes)"))
+const EIP1271_MAGIC_VALUE = '0x1626ba7e'
+
+const eip1271Abi = [
+  'function isValidSignature(bytes32 hash, bytes signature) view returns (bytes4)'
+]
+
+export interface SignedTypedData {
+  domain: TypedDataDomain
+  types: Record<string, readonly TypedDataParameter[]>
+  primaryType: string
+  message: Record<string, unknown>
+}
+
+/**
+ * Verifies a signature over a digest for EOAs, deployed smart accounts and counterfactual wallets
+ * - ERC-6492 wrapped signatures are checked with the universal validator in a deployless eth_call
+ * - otherwise ECDSA recovery is tried first, then EIP-1271 isValidSignature when the address has code
+ * @param address - The address that is expected to have signed
+ * @param hash - The EIP-191 or EIP-712 digest that was signed
+ * @param signature - The signature as a hex string
+ * @returns true if the signature is valid for the address, false otherwise
+ * @see https://eips.ethereum.org/EIPS/eip-1271
+ * @see https://eips.ethereum.org/EIPS/eip-6492
+ */
+export async function verifyHashSignature(
+  address: string,
+  hash: string,
+  signature: string
+): Promise<boolean> {
+  try {
+    if (!ethers.isAddress(address) || !ethers.isHexString(signature)) {
+      return false
+    }
+
+    if (isErc6492Signature(signature as `0x${string}`)) {
+      const args = ethers.AbiCoder.defaultAbiCoder().encode(
+        ['address', 'bytes32', 'bytes'],
+        [address, hash, signature]
+      )
+      const result = await provider.call({
+        data: ethers.concat([erc6492SignatureValidatorByteCode, args])
+      })
+      return result === '0x01'
+    }
+
+    if (ethers.dataLength(signature) === 65) {
+      try {
+        const recoveredAddr = ethers.recoverAddress(hash, signature)
+        if (recoveredAddr.toLowerCase() === address.toLowerCase()) {
+          return true
+        }
+      } catch {
+        // Not a valid ECDSA signature, it may still be valid for a contract wallet
+      }
+    }
+
+    const code = await provider.getCode(address)
+    if (code === '0x') {
+      return false
+    }
+
+    const wallet = new ethers.Contract(address, eip1271Abi, provider)
+    const magicValue = await wallet.isValidSignature(hash, signature)
+    return magicValue === EIP1271_MAGIC_VALUE
+  } catch (error) {
+    console.error('Signature verification error:', error)
+    return false
+  }
+}
+
+/**
+ * Verifies an EIP-191 personal_sign signature, see verifyHashSignature
+ */
+export async function verifySignedMessage(
+  address: string,
+  message: string,
+  signature: string
+): Promise<boolean> {
+  return verifyHashSignature(address, ethers.hashMessage(message), signature)
+}
+
+/**
+ * Verifies an EIP-712 signature, see verifyHashSignature
+ */
+export async function verifySignedTypedData(
+  address: string,
+  typedData: SignedTypedData,
+  signature: string
+): Promise<boolean> {
+  let hash: string
+  try {
+    hash = hashTypedData(typedData)
+  } catch (error) {
+    console.error('Typed data hashing error:', error)
+    return false
+  }
+  return verifyHashSignature(address, hash, signature)
+}
@@ -0,0 +1,302 @@
+import { getAddress } from 'ethers'
+import { verifySignedMessage } from './signatures.ts'
+
+/**
+ * Parsed fields of an EIP-4361 (Sign-In with Ethereum) message
+ * @see https://eips.ethereum.org/EIPS/eip-4361
+ */
+export interface SiweMessage {
+  scheme?: string
+  domain: string
+  address: string
+  statement?: string
+  uri: string
+  version: string
+  chainId: number
+  nonce: string
+  issuedAt: string
+  expirationTime?: string
+  notBefore?: string
+  requestId?: string
+  resources: string[]
+}
+
+export type SiweErrorCode =
+  | 'MALFORMED_MESSAGE'
+  | 'DOMAIN_MISMATCH'
+  | 'URI_MISMATCH'
+  | 'ADDRESS_MISMATCH'
+  | 'UNSUPPORTED_VERSION'
+  | 'CHAIN_ID_MISMATCH'
+  | 'INVALID_NONCE'
+  | 'ISSUED_IN_FUTURE'
+  | 'MESSAGE_TOO_OLD'
+  | 'MESSAGE_EXPIRED'
+  | 'MESSAGE_NOT_YET_VALID'
+  | 'INVALID_SIGNATURE'
+
+export type SiweResult =
+  | { ok: true, message: SiweMessage }
+  | { ok: false, code: SiweErrorCode, error: string }
+
+export interface SiweExpectations {
+  domains: string[]
+  chainId: number
+  address: string
+  maxAgeSeconds: number
+  now?: number
+}
+
+const HEADER_SUFFIX = ' wants you to sign in with your Ethereum account:'
+
+// Allowed clock skew between the wallet and the edge function
+const CLOCK_SKEW_SECONDS = 30
+
+// Field labels in the order the spec requires them
+const FIELDS = [
+  ['URI', 'uri'],
+  ['Version', 'version'],
+  ['Chain ID', 'chainId'],
+  ['Nonce', 'nonce'],
+  ['Issued At', 'issuedAt'],
+  ['Expiration Time', 'expirationTime'],
+  ['Not Before', 'notBefore'],
+  ['Request ID', 'requestId'],
+] as const
+
+const REQUIRED_FIELDS = ['uri', 'version', 'chainId', 'nonce', 'issuedAt']
+
+const fail = (code: SiweErrorCode, error: string): SiweResult => ({ ok: false, code, error })
+
+const parseTimestamp = (value: string) => {
+  // RFC 3339 date-time, Date.parse alone accepts far too much
+  if (!/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?(Z|[+-]\d{2}:\d{2})$/.test(value)) {
+    return null
+  }
+  const time = Date.parse(value)
+  return Number.isNaN(time) ? null : time / 1000
+}
+
+/**
+ * Parses an EIP-4361 message into its fields
+ * @param raw - The exact message the wallet signed
+ * @returns The parsed message, or null if it does not follow the EIP-4361 format
+ */
+export function parseSiweMessage(raw: string): SiweMessage | null {
+  if (typeof raw !== 'string') {
+    return null
+  }
+
+  const lines = raw.split('\n')
+  const header = lines[0]
+  if (!header || !header.endsWith(HEADER_SUFFIX)) {
+    return null
+  }
+
+  let domain = header.slice(0, -HEADER_SUFFIX.length)
+  let scheme: string | undefined
+  const schemeMatch = domain.match(/^([a-zA-Z][a-zA-Z0-9+.-]*):\/\/(.+)$/)
+  if (schemeMatch) {
+    scheme = schemeMatch[1]
+    domain = schemeMatch[2]
+  }
+  if (!domain || /\s/.test(domain)) {
+    return null
+  }
+
+  const address = lines[1]
+  if (!address || !/^0x[a-fA-F0-9]{40}$/.test(address)) {
+    return null
+  }
+
+  // Blank line, then an optional statement followed by another blank line
+  let index = 2
+  if (lines[index] !== '') {
+    return null
+  }
+  index++
+
+  let statement: string | undefined
+  if (lines[index] !== undefined && !lines[index].startsWith('URI: ')) {
+    if (lines[index] !== '') {
+      statement = lines[index]
+      index++
+    }
+    if (lines[index] !== '') {
+      return null
+    }
+    index++
+  }
+
+  const fields: Record<string, string> = {}
+  let fieldIndex = 0
+  for (; index < lines.length; index++) {
+    const line = lines[index]
+    if (line === 'Resources:') {
+      break
+    }
+
+    let matched = false
+    while (fieldIndex < FIELDS.length) {
+      const [label, key] = FIELDS[fieldIndex++]
+      if (line.startsWith(`${label}: `)) {
+        fields[key] = line.slice(label.length + 2)
+        matched = true
+        break
+      }
+      if (REQUIRED_FIELDS.includes(key)) {
+        return null
+      }
+    }
+    if (!matched) {
+      return null
+    }
+  }
+
+  if (REQUIRED_FIELDS.some(key => !fields[key])) {
+    return null
+  }
+
+  const resources: string[] = []
+  if (lines[index] === 'Resources:') {
+    for (index++; index < lines.length; index++) {
+      if (!lines[index].startsWith('- ')) {
+        return null
+      }
+      resources.push(lines[index].slice(2))
+    }
+  }
+
+  if (!/^\d+$/.test(fields.chainId)) {
+    return null
+  }
+
+  return {
+    scheme,
+    domain,
+    address,
+    statement,
+    uri: fields.uri,
+    version: fields.version,
+    chainId: parseInt(fields.chainId),
+    nonce: fields.nonce,
+    issuedAt: fields.issuedAt,
+    expirationTime: fields.expirationTime,
+    notBefore: fields.notBefore,
+    requestId: fields.requestId,
+    resources,
+  }
+}
+
+/**
+ * Checks a parsed EIP-4361 message against what this server expects
+ * - domain and URI must belong to one of our frontends
+ * - chain ID must match the marketplace chain
+ * - the message must be recent and inside its Expiration Time / Not Before window
+ * @param message - The parsed message
+ * @param expected - The domains, chain, address and age the message must satisfy
+ * @returns The message when valid, otherwise an error code explaining why it was rejected
+ */
+export function validateSiweMessage(message: SiweMessage, expected: SiweExpectations): SiweResult {
+  const now = expected.now ?? Date.now() / 1000
+
+  if (!expected.domains.includes(message.domain.toLowerCase())) {
+    return fail('DOMAIN_MISMATCH', `Message was issued for ${message.domain}`)
+  }
+
+  let uri: URL
+  try {
+    uri = new URL(message.uri)
+  } catch {
+    return fail('MALFORMED_MESSAGE', 'URI is not a valid URI')
+  }
+  if (uri.host.toLowerCase() !== message.domain.toLowerCase()) {
+    return fail('URI_MISMATCH', 'URI does not belong to the message domain')
+  }
+
+  let address: string
+  try {
+    address = getAddress(message.address)
+  } catch {
+    return fail('MALFORMED_MESSAGE', 'Address is not a valid EIP-55 address')
+  }
+  if (address.toLowerCase() !== expected.address.toLowerCase()) {
+    return fail('ADDRESS_MISMATCH', 'Message was signed for a different address')
+  }
+
+  if (message.version !== '1') {
+    return fail('UNSUPPORTED_VERSION', `Unsupported version ${message.version}`)
+  }
+
+  if (message.chainId !== expected.chainId) {
+    return fail('CHAIN_ID_MISMATCH', `Expected chain ID ${expected.chainId}`)
+  }
+
+  if (!/^[a-zA-Z0-9]{8,}$/.test(message.nonce)) {
+    return fail('INVALID_NONCE', 'Nonce must be at least 8 alphanumeric characters')
+  }
+
+  const issuedAt = parseTimestamp(message.issuedAt)
+  if (issuedAt === null) {
+    return fail('MALFORMED_MESSAGE', 'Issued At is not a valid timestamp')
+  }
+  if (issuedAt - now > CLOCK_SKEW_SECONDS) {
+    return fail('ISSUED_IN_FUTURE', 'Issued At is in the future')
+  }
+  if (now - issuedAt > expected.maxAgeSeconds) {
+    return fail('MESSAGE_TOO_OLD', `Message is older than ${expected.maxAgeSeconds} seconds`)
+  }
+
+  if (message.expirationTime !== undefined) {
+    const expirationTime = parseTimestamp(message.expirationTime)
+    if (expirationTime === null) {
+      return fail('MALFORMED_MESSAGE', 'Expiration Time is not a valid timestamp')
+    }
+    if (now >= expirationTime) {
+      return fail('MESSAGE_EXPIRED', 'Message has expired')
+    }
+  }
+
+  if (message.notBefore !== undefined) {
+    const notBefore = parseTimestamp(message.notBefore)
+    if (notBefore === null) {
+      return fail('MALFORMED_MESSAGE', 'Not Before is not a valid timestamp')
+    }
+    if (now < notBefore) {
+      return fail('MESSAGE_NOT_YET_VALID', 'Message is not valid yet')
+    }
+  }
+
+  return { ok: true, message }
+}
+
+/**
+ * Parses, validates and verifies the signature of an EIP-4361 message
+ * @param raw - The exact message the wallet signed
+ * @param signature - The personal_sign signature over the message, EOA or smart-contract wallet
+ * @param expected - The domains, chain, address and age the message must satisfy
+ * @returns The message when accepted, otherwise an error code explaining why it was rejected
+ */
+export async function verifySiweMessage(
+  raw: string,
+  signature: string,
+  expected: SiweExpectations
+): Promise<SiweResult> {
+  const message = parseSiweMessage(raw)
+  if (!message) {
+    return fail('MALFORMED_MESSAGE', 'Message is not a valid EIP-4361 message')
+  }
+
+  const result = validateSiweMessage(message, expected)
+  if (!result.ok) {
+    return result
+  }
+
+  // Smart-contract wallets are verified through EIP-1271 / ERC-6492
+  const verified = await verifySignedMessage(message.address, raw, signature)
+  if (!verified) {
+    return fail('INVALID_SIGNATURE', 'Signature does not match the message address')
+  }
+
+  return result
+}
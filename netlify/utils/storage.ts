@@ -0,0 +1,101 @@
+import { getContentStoreBackend, getLocalContentDir } from './shared.ts'
+import { createPinataStore } from './pinataStore.ts'
+import { createLocalStore } from './localStore.ts'
+
+/**
+ * A file as returned by the content store, same shape as Pinata's file list items
+ */
+export interface StoredFile {
+  id: string
+  name: string | null
+  cid: string
+  size: number
+  mime_type: string
+  keyvalues: Record<string, string>
+  group_id: string | null
+  created_at: string
+}
+
+export interface FileListResult {
+  files: StoredFile[]
+  next_page_token: string | null
+}
+
+/**
+ * Filters for listing private files, every given filter must match
+ */
+export interface FileQuery {
+  cid?: string
+  group?: string
+  keyvalues?: Record<string, string>
+  order?: 'ASC' | 'DESC'
+  limit?: number
+  pageToken?: string
+}
+
+/**
+ * Filters for listing public files, every given keyvalue must match
+ */
+export type PublicFileQuery = Pick<FileQuery, 'keyvalues' | 'limit' | 'pageToken'>
+
+export type GroupQuery = Pick<FileQuery, 'limit' | 'pageToken'>
+
+export interface FileMetadata {
+  name?: string
+  keyvalues?: Record<string, string>
+}
+
+/**
+ * The outcome of deleting one file, same shape as Pinata's delete response
+ */
+export interface DeletedFile {
+  id: string
+  status: string
+}
+
+export interface StoredGroup {
+  id: string
+  name: string
+}
+
+export interface GroupListResult {
+  groups: StoredGroup[]
+  next_page_token: string | null
+}
+
+/**
+ * Storage for drafts, posts and thumbnails
+ * - "pinata" stores everything on Pinata (private files, groups and the private gateway)
+ * - "local" stores everything on disk and computes the CIDs locally, for offline dev and tests
+ */
+export interface ContentStore {
+  listFiles(query?: FileQuery): Promise<FileListResult>
+  /** Lists every page of matching files */
+  listAllFiles(query?: Omit<FileQuery, 'limit' | 'pageToken'>): Promise<StoredFile[]>
+  uploadJson(data: unknown, metadata?: FileMetadata): Promise<StoredFile>
+  uploadPublicFile(file: File, metadata?: FileMetadata): Promise<StoredFile>
+  /** Lists public files (thumbnails) */
+  listPublicFiles(query?: PublicFileQuery): Promise<FileListResult>
+  /** Keyvalues are merged into the existing ones */
+  updateFile(id: string, metadata: FileMetadata): Promise<StoredFile>
+  deleteFiles(ids: string[]): Promise<DeletedFile[]>
+  createGroup(name: string): Promise<StoredGroup>
+  addToGroup(groupId: string, fileIds: string[]): Promise<void>
+  listGroups(query?: GroupQuery): Promise<GroupListResult>
+  /** Fetches private content, JSON is parsed and text is returned as a string */
+  getContent(cid: string): Promise<{ data: any, contentType: string | null }>
+}
+
+let contentStore: ContentStore | null = null
+
+/**
+ * Returns the content store for the configured CONTENT_STORE backend
+ */
+export const getContentStore = (): ContentStore => {
+  if (!contentStore) {
+    contentStore = getContentStoreBackend() === 'local'
+      ? createLocalStore(getLocalContentDir())
+      : createPinataStore()
+  }
+  return contentStore
+}
@@ -0,0 +1,135 @@
+import { getContentStore, type StoredFile } from './storage.ts'
+import { normalizeTag } from './tags.ts'
+
+export const DEFAULT_PAGE_SIZE = 9
+export const MAX_PAGE_SIZE = 50
+
+export type TagSort = 'newest' | 'oldest'
+
+/**
+ * Tag search over published files
+ * - all: every tag must be set (AND)
+ * - any: at least one tag must be set (OR), ignored when empty
+ * - not: none of the tags may be set
+ */
+export interface TagQuery {
+  all: string[]
+  any: string[]
+  not: string[]
+  sort: TagSort
+  limit: number
+}
+
+// The last file of the previous page, the next page starts right after it in the sort order
+interface TagCursor {
+  query: TagQuery
+  publishedAt: string
+  id: string
+}
+
+export type TagQueryResult =
+  | { ok: true, query: TagQuery, after: TagCursor | null }
+  | { ok: false, error: string }
+
+const parseTags = (tags: string | undefined) => {
+  return [...new Set((tags || '').split(',').map(normalizeTag).filter(tag => tag.length > 0))].sort()
+}
+
+const encodeCursor = (cursor: TagCursor) => {
+  return btoa(JSON.stringify(cursor)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+}
+
+const decodeCursor = (value: string): TagCursor | null => {
+  try {
+    const cursor = JSON.parse(atob(value.replace(/-/g, '+').replace(/_/g, '/')))
+    const query = cursor?.query
+    const isTagList = (tags: unknown) => Array.isArray(tags) && tags.every(tag => typeof tag === 'string')
+    if (!query || !isTagList(query.all) || !isTagList(query.any) || !isTagList(query.not)
+      || (query.sort !== 'newest' && query.sort !== 'oldest')
+      || !Number.isInteger(query.limit) || query.limit < 1 || query.limit > MAX_PAGE_SIZE
+      || typeof cursor.publishedAt !== 'string' || typeof cursor.id !== 'string') {
+      return null
+    }
+    return cursor
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Read the tag query from the request parameters
+ * with a next_page_token, the query it was issued for is used and the other parameters are ignored
+ */
+export const parseTagQuery = (params: Record<string, string | undefined>): TagQueryResult => {
+  if (params.next_page_token) {
+    const cursor = decodeCursor(params.next_page_token)
+    if (!cursor) {
+      return { ok: false, error: 'Invalid next_page_token' }
+    }
+    return { ok: true, query: cursor.query, after: cursor }
+  }
+
+  const query: TagQuery = {
+    all: parseTags(params.tags),
+    any: parseTags(params.any),
+    not: parseTags(params.not),
+    sort: (params.sort || 'newest') as TagSort,
+    limit: params.limit ? parseInt(params.limit) : DEFAULT_PAGE_SIZE,
+  }
+
+  if (query.all.length === 0 && query.any.length === 0) {
+    return { ok: false, error: 'Tags parameter is required. Use comma-separated values (e.g., ?tags=tag1,tag2 for all of them or ?any=tag1,tag2 for any of them)' }
+  }
+  if (query.sort !== 'newest' && query.sort !== 'oldest') {
+    return { ok: false, error: 'sort must be newest or oldest' }
+  }
+  if (!/^\d+$/.test(params.limit || `${DEFAULT_PAGE_SIZE}`) || query.limit < 1 || query.limit > MAX_PAGE_SIZE) {
+    return { ok: false, error: `limit must be between 1 and ${MAX_PAGE_SIZE}` }
+  }
+
+  return { ok: true, query, after: null }
+}
+
+export const matchesTagQuery = (file: StoredFile, query: TagQuery) => {
+  const hasTag = (tag: string) => file.keyvalues[tag] === tag
+  return query.all.every(hasTag)
+    && (query.any.length === 0 || query.any.some(hasTag))
+    && !query.not.some(hasTag)
+}
+
+// Posts published before the publish date was stored fall back to their upload date
+const getPublishedAt = (file: StoredFile) => {
+  const time = Date.parse(file.keyvalues.publishedAt || file.created_at)
+  return new Date(Number.isNaN(time) ? 0 : time).toISOString()
+}
+
+/**
+ * Published files matching the tag query, one page at a time
+ * files are sorted by publish date, then by id, the next page starts after the last file of the previous one
+ */
+export async function searchFilesByTags(query: TagQuery, after: TagCursor | null) {
+  // Pinata can only AND exact keyvalues, OR and NOT are applied to the matching files
+  const keyvalues: Record<string, string> = { status: "onchain" }
+  for (const tag of query.all) {
+    keyvalues[tag] = tag
+  }
+
+  // Pinata only sorts by upload date, a draft can be published long after it was uploaded
+  const direction = query.sort === 'newest' ? -1 : 1
+  const compare = (a: { publishedAt: string, id: string }, b: { publishedAt: string, id: string }) => {
+    return direction * (a.publishedAt.localeCompare(b.publishedAt) || a.id.localeCompare(b.id))
+  }
+
+  const matches = (await getContentStore().listAllFiles({ keyvalues }))
+    .filter(file => matchesTagQuery(file, query))
+    .map(file => ({ file, publishedAt: getPublishedAt(file), id: file.id }))
+    .filter(entry => !after || compare(entry, after) > 0)
+    .sort(compare)
+
+  const page = matches.slice(0, query.limit)
+  const last = page[page.length - 1]
+  return {
+    files: page.map(entry => entry.file),
+    nextPageToken: matches.length > query.limit ? encodeCursor({ query, publishedAt: last.publishedAt, id: last.id }) : null,
+  }
+}
@@ -0,0 +1,254 @@
+import { getKeyValueStore } from './kv.ts'
+import { getTagAliases } from './shared.ts'
+import { getContentStore, type StoredFile } from './storage.ts'
+
+export const MAX_TAG_LENGTH = 32
+export const MAX_TAGS_PER_POST = 10
+
+// Hashtags are stored as file keyvalues, they cannot shadow the keys the server sets
+const RESERVED_TAGS = new Set(['owner', 'status', 'group', 'variant', 'price', 'supply'])
+
+// Days of activity kept per tag, trending only looks at this window
+const TRENDING_WINDOW_DAYS = 7
+
+// Activity loses half of its weight every TRENDING_HALF_LIFE_DAYS
+const TRENDING_HALF_LIFE_DAYS = 2
+
+// A purchase says more about the interest in a tag than a new post
+const ACTIVITY_WEIGHTS = {
+  publish: 1,
+  purchase: 2,
+}
+
+// A subscriber buys a post once, purchases are deduplicated for longer than the trending window
+const PURCHASE_DEDUP_TTL_SECONDS = 30 * 24 * 60 * 60
+
+export type TagActivity = keyof typeof ACTIVITY_WEIGHTS
+
+interface DailyActivity {
+  publishes: number
+  purchases: number
+}
+
+interface TagStats {
+  tag: string
+  /** Number of posts published on chain with the tag */
+  posts: number
+  /** Activity by UTC day (YYYY-MM-DD) over the trending window */
+  activity: Record<string, DailyActivity>
+}
+
+export type TagsResult =
+  | { ok: true, tags: string[] }
+  | { ok: false, error: string }
+
+/**
+ * Normalize a hashtag
+ * - leading '#' and whitespace are dropped ("#Web 3" becomes "web3")
+ * - unicode is NFKC-normalized and lowercased, only letters, numbers, '-' and '_' are kept
+ * - aliases from TAG_ALIASES are resolved to their tag
+ * @returns The tag, or an empty string when nothing is left
+ */
+export const normalizeTag = (tag: string): string => {
+  const normalized = normalizeTagText(tag)
+  return getAliases().get(normalized) || normalized
+}
+
+const normalizeTagText = (tag: string) => {
+  return tag
+    .normalize('NFKC')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{M}\p{N}_-]+/gu, '')
+}
+
+let aliases: Map<string, string> | null = null
+
+const getAliases = () => {
+  if (!aliases) {
+    aliases = new Map(getTagAliases().map(([alias, tag]) => [normalizeTagText(alias), normalizeTagText(tag)]))
+  }
+  return aliases
+}
+
+/**
+ * Normalize the comma-separated hashtags of a post, duplicates are dropped
+ * @returns The tags, or an error when one is too long or reserved or there are too many
+ */
+export const normalizeTags = (hashtags: string): TagsResult => {
+  const tags = [...new Set(hashtags.split(',').map(normalizeTag).filter(tag => tag.length > 0))]
+
+  const tooLong = tags.find(tag => tag.length > MAX_TAG_LENGTH)
+  if (tooLong) {
+    return { ok: false, error: `Hashtag ${tooLong} is longer than ${MAX_TAG_LENGTH} characters` }
+  }
+  const reserved = tags.find(tag => RESERVED_TAGS.has(tag))
+  if (reserved) {
+    return { ok: false, error: `Hashtag ${reserved} is reserved` }
+  }
+  if (tags.length > MAX_TAGS_PER_POST) {
+    return { ok: false, error: `A post can have at most ${MAX_TAGS_PER_POST} hashtags` }
+  }
+  return { ok: true, tags }
+}
+
+/**
+ * Hashtags of a file, stored as keyvalues whose key is the tag itself
+ */
+export const getFileTags = (file: StoredFile) => {
+  return Object.entries(file.keyvalues)
+    .filter(([key, value]) => key === value)
+    .map(([key]) => key)
+    .sort()
+}
+
+const getTagStore = () => getKeyValueStore('tags')
+
+const toDay = (date: Date) => date.toISOString().slice(0, 10)
+
+const daysBetween = (from: string, to: string) => {
+  return Math.round((Date.parse(to) - Date.parse(from)) / (24 * 60 * 60 * 1000))
+}
+
+/**
+ * Count a publish or a purchase for each of the tags
+ * a publish also adds the post to the tag counts
+ */
+export async function recordTagActivity(tags: string[], type: TagActivity, at = new Date()) {
+  const store = getTagStore()
+  const today = toDay(at)
+
+  for (const tag of tags) {
+    // Webhooks count concurrently, the stats are updated only if unchanged since they were read
+    await store.update<TagStats>(`tag:${tag}`, (current) => {
+      const stats = current || { tag, posts: 0, activity: {} }
+      const day = stats.activity[today] || { publishes: 0, purchases: 0 }
+      if (type === 'publish') {
+        stats.posts += 1
+        day.publishes += 1
+      } else {
+        day.purchases += 1
+      }
+      stats.activity[today] = day
+
+      for (const date of Object.keys(stats.activity)) {
+        if (daysBetween(date, today) >= TRENDING_WINDOW_DAYS) {
+          delete stats.activity[date]
+        }
+      }
+      return stats
+    })
+  }
+}
+
+/**
+ * Take a post out of the tag counts, its publication was undone by a reorg
+ * the activity of the day is kept, trending fades it out
+ */
+export async function removeTagPost(tags: string[]) {
+  const store = getTagStore()
+  for (const tag of tags) {
+    await store.update<TagStats>(`tag:${tag}`, (stats) => {
+      return stats && stats.posts > 0 ? { ...stats, posts: stats.posts - 1 } : null
+    })
+  }
+}
+
+/**
+ * Count the posts of every tag again from the onchain files
+ * posts published before the tag counts existed are counted, the activity is kept as is
+ * @returns The number of tags and posts counted
+ */
+export async function backfillTagCounts() {
+  const store = getTagStore()
+  const files = await getContentStore().listAllFiles({ keyvalues: { status: "onchain" } })
+
+  const counts = new Map<string, number>()
+  for (const file of files) {
+    for (const tag of getFileTags(file)) {
+      counts.set(tag, (counts.get(tag) || 0) + 1)
+    }
+  }
+
+  // Tags left without an onchain post are reset too
+  const tags = new Set([...counts.keys(), ...(await store.list('tag:')).map(key => key.slice('tag:'.length))])
+  for (const tag of tags) {
+    const posts = counts.get(tag) || 0
+    await store.update<TagStats>(`tag:${tag}`, (stats) => {
+      if (!stats && posts === 0) {
+        return null
+      }
+      return { ...(stats || { tag, activity: {} }), posts }
+    })
+  }
+  return { tags: counts.size, posts: files.length }
+}
+
+/**
+ * Count a purchase for the tags of a post, once per subscriber
+ * @returns false when the purchase was already counted
+ */
+export async function recordTagPurchase(postId: string, subscriber: string, tags: string[]) {
+  const counted = await getTagStore().create(`purchase:${postId}:${subscriber.toLowerCase()}`, true, PURCHASE_DEDUP_TTL_SECONDS)
+  if (!counted) {
+    return false
+  }
+  try {
+    await recordTagActivity(tags, 'purchase')
+  } catch (error) {
+    // The purchase is counted when the event is retried
+    await getTagStore().delete(`purchase:${postId}:${subscriber.toLowerCase()}`)
+    throw error
+  }
+  return true
+}
+
+const listTagStats = async (prefix = '') => {
+  const store = getTagStore()
+  const keys = await store.list(`tag:${prefix}`)
+  const stats = await Promise.all(keys.map(key => store.get<TagStats>(key)))
+  return stats.filter((tag): tag is TagStats => tag !== null)
+}
+
+/**
+ * Tags by number of posts, most used first
+ * @param prefix - Only the tags starting with it, normalized like a tag, for autocomplete
+ */
+export async function listPopularTags(limit: number, prefix = '') {
+  const normalizedPrefix = normalizeTagText(prefix)
+  const stats = await listTagStats(normalizedPrefix)
+  return stats
+    .filter(tag => tag.posts > 0)
+    .sort((a, b) => b.posts - a.posts || a.tag.localeCompare(b.tag))
+    .slice(0, limit)
+    .map(({ tag, posts }) => ({ tag, posts }))
+}
+
+/**
+ * Tags with the most recent activity, publishes and purchases of the last days
+ * weighted by type and decayed by age
+ */
+export async function listTrendingTags(limit: number, now = new Date()) {
+  const today = toDay(now)
+  const stats = await listTagStats()
+
+  return stats
+    .map(({ tag, posts, activity }) => {
+      let publishes = 0
+      let purchases = 0
+      let score = 0
+      for (const [date, day] of Object.entries(activity)) {
+        const age = daysBetween(date, today)
+        if (age < 0 || age >= TRENDING_WINDOW_DAYS) {
+          continue
+        }
+        publishes += day.publishes
+        purchases += day.purchases
+        const decay = Math.pow(0.5, age / TRENDING_HALF_LIFE_DAYS)
+        score += (day.publishes * ACTIVITY_WEIGHTS.publish + day.purchases * ACTIVITY_WEIGHTS.purchase) * decay
+      }
+      return { tag, posts, publishes, purchases, score: Math.round(score * 1000) / 1000 }
+    })
+    .filter(tag => tag.score > 0)
+    .sort((a, b) => b.score - a.score || b.posts - a.posts || a.tag.localeCompare(b.tag))
+    .slice(0, limit)
+}
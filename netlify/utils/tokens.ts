@@ -0,0 +1,169 @@
+import { sign, verify, decode } from 'hono/jwt'
+import { getKeyValueStore } from './kv.ts'
+import { getJwtKeys, getAdminAddresses, randomHex, sha256Hex } from './shared.ts'
+
+export const ACCESS_TOKEN_TTL_SECONDS = 2 * 60 * 60 // 2 hours
+export const REFRESH_TOKEN_TTL_SECONDS = 30 * 24 * 60 * 60 // 30 days
+
+export type Scope = 'read:drafts' | 'write:drafts' | 'read:purchased' | 'admin'
+
+// Scopes every signed-in user gets, also assumed for tokens issued before scopes existed
+const USER_SCOPES: Scope[] = ['read:drafts', 'write:drafts', 'read:purchased']
+
+export interface JwtPayload {
+  address: string
+  jti: string
+  exp: number
+  scopes: Scope[]
+}
+
+interface RefreshTokenRecord {
+  address: string
+  familyId: string
+  expiresAt: number
+}
+
+const getTokenStore = () => getKeyValueStore('tokens')
+
+// HS256 key as a JWK so hono writes the kid into the token header
+const toJwk = (kid: string, secret: string) => {
+  const binary = Array.from(new TextEncoder().encode(secret), b => String.fromCharCode(b)).join('')
+  return {
+    kty: 'oct',
+    k: btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, ''),
+    alg: 'HS256' as const,
+    kid,
+  }
+}
+
+export const getScopesForAddress = (address: string): Scope[] => {
+  if (getAdminAddresses().includes(address.toLowerCase())) {
+    return [...USER_SCOPES, 'admin']
+  }
+  return [...USER_SCOPES]
+}
+
+export async function generateJWT(address: string): Promise<string> {
+  const { currentKid, keys } = getJwtKeys()
+  const payload = {
+    address: address.toLowerCase(),
+    jti: randomHex(16),
+    scope: getScopesForAddress(address).join(' '),
+    iat: Math.floor(Date.now() / 1000),
+    exp: Math.floor(Date.now() / 1000) + ACCESS_TOKEN_TTL_SECONDS
+  }
+  return await sign(payload, toJwk(currentKid, keys[currentKid]))
+}
+
+/**
+ * Verifies the token signature with the key named by its kid and rejects revoked tokens.
+ * Tokens issued before key IDs were introduced carry no kid and are checked against SECRET_KEY.
+ */
+export async function verifyJWT(token: string): Promise<JwtPayload | null> {
+  try {
+    const { currentKid, keys } = getJwtKeys()
+    const kid = decode(token).header.kid || currentKid
+    if (!keys[kid]) {
+      return null
+    }
+
+    const payload = await verify(token, keys[kid], 'HS256')
+    if (!payload || typeof payload !== 'object' || !('address' in payload)) {
+      return null
+    }
+
+    const jti = payload.jti as string | undefined
+    if (jti && await isJWTRevoked(jti)) {
+      return null
+    }
+
+    const scopes = typeof payload.scope === 'string'
+      ? payload.scope.split(' ').filter(scope => scope.length > 0) as Scope[]
+      : [...USER_SCOPES]
+
+    return {
+      address: payload.address as string,
+      jti: jti || '',
+      exp: payload.exp as number,
+      scopes
+    }
+  } catch (err) {
+    console.error('JWT verification error:', err)
+    return null
+  }
+}
+
+/**
+ * Adds the token to the revocation list until it would have expired anyway
+ */
+export const revokeJWT = async (jti: string, exp: number) => {
+  const ttl = Math.max(exp - Math.floor(Date.now() / 1000), 1)
+  await getTokenStore().set(`revoked:${jti}`, true, ttl)
+}
+
+export const isJWTRevoked = async (jti: string) => {
+  return (await getTokenStore().get<boolean>(`revoked:${jti}`)) === true
+}
+
+/**
+ * Issues an opaque refresh token. Rotated tokens share the family of the login they descend from.
+ */
+export const issueRefreshToken = async (address: string, familyId: string = randomHex(16)) => {
+  const refreshToken = randomHex(32)
+  const record: RefreshTokenRecord = {
+    address: address.toLowerCase(),
+    familyId,
+    expiresAt: Date.now() + REFRESH_TOKEN_TTL_SECONDS * 1000,
+  }
+  await getTokenStore().set(`refresh:${await sha256Hex(refreshToken)}`, record, REFRESH_TOKEN_TTL_SECONDS)
+  return refreshToken
+}
+
+/**
+ * Exchanges a refresh token for a new one.
+ * A refresh token can only be used once, presenting it again revokes its whole family.
+ * @returns The address and the new refresh token, or null if the token is unknown, used or revoked
+ */
+export const rotateRefreshToken = async (refreshToken: string) => {
+  const store = getTokenStore()
+  const hash = await sha256Hex(refreshToken)
+
+  const record = await store.get<RefreshTokenRecord>(`refresh:${hash}`)
+  if (!record) {
+    return null
+  }
+
+  if (await store.get<boolean>(`family:${record.familyId}`)) {
+    return null
+  }
+
+  // The record is kept after use so that a replayed token can still be traced to its family
+  const claimed = await store.create(`used:${hash}`, true, REFRESH_TOKEN_TTL_SECONDS)
+  if (!claimed) {
+    console.error('[auth] Refresh token reuse detected, revoking family', record.familyId)
+    await revokeRefreshFamily(record.familyId)
+    return null
+  }
+
+  return {
+    address: record.address,
+    refreshToken: await issueRefreshToken(record.address, record.familyId)
+  }
+}
+
+const revokeRefreshFamily = async (familyId: string) => {
+  await getTokenStore().set(`family:${familyId}`, true, REFRESH_TOKEN_TTL_SECONDS)
+}
+
+/**
+ * Revokes the refresh token and every token rotated from the same login
+ * @returns false if the refresh token is unknown
+ */
+export const revokeRefreshToken = async (refreshToken: string) => {
+  const record = await getTokenStore().get<RefreshTokenRecord>(`refresh:${await sha256Hex(refreshToken)}`)
+  if (!record) {
+    return false
+  }
+  await revokeRefreshFamily(record.familyId)
+  return true
+}
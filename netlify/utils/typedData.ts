@@ -0,0 +1,223 @@
+import { ethers } from 'ethers'
+import { getChainId, getMarketplaceAddress } from './shared.ts'
+import { verifySignedTypedData } from './signatures.ts'
+import { getNonceStore } from './nonces.ts'
+import { getSessionKeyForAction } from './sessionKeys.ts'
+
+/**
+ * EIP-712 schemas for every signed draft action.
+ * The server owns the domain and the field lists, clients only supply the message values.
+ * - contentHash is keccak256 of the UTF-8 bytes of JSON.stringify(content)
+ * - thumbnailHash is keccak256 of the thumbnail file bytes
+ * - actions is a comma-separated list of the actions a session key may sign
+ * - previewBlocks is the number of blocks readable without buying the post
+ */
+export const TYPED_DATA_TYPES = {
+  CreateFile: [
+    { name: 'contentHash', type: 'bytes32' },
+    { name: 'nonce', type: 'string' },
+    { name: 'timestamp', type: 'uint256' },
+  ],
+  UpdateFile: [
+    { name: 'cid', type: 'string' },
+    { name: 'contentHash', type: 'bytes32' },
+    { name: 'nonce', type: 'string' },
+    { name: 'timestamp', type: 'uint256' },
+  ],
+  PublishFile: [
+    { name: 'cid', type: 'string' },
+    { name: 'thumbnailHash', type: 'bytes32' },
+    { name: 'hashtags', type: 'string' },
+    { name: 'previewBlocks', type: 'uint256' },
+    { name: 'nonce', type: 'string' },
+    { name: 'timestamp', type: 'uint256' },
+  ],
+  DeleteFile: [
+    { name: 'cid', type: 'string' },
+    { name: 'nonce', type: 'string' },
+    { name: 'timestamp', type: 'uint256' },
+  ],
+  RestoreRevision: [
+    { name: 'cid', type: 'string' },
+    { name: 'revisionCid', type: 'string' },
+    { name: 'nonce', type: 'string' },
+    { name: 'timestamp', type: 'uint256' },
+  ],
+  AuthorizeSessionKey: [
+    { name: 'sessionKey', type: 'address' },
+    { name: 'actions', type: 'string' },
+    { name: 'expiresAt', type: 'uint256' },
+    { name: 'nonce', type: 'string' },
+    { name: 'timestamp', type: 'uint256' },
+  ],
+} as const
+
+export type TypedDataAction = keyof typeof TYPED_DATA_TYPES
+
+// Signed messages must be submitted within 60 seconds
+const MAX_SIGNATURE_AGE_SECONDS = 60
+
+export const isTypedDataAction = (action: string): action is TypedDataAction => {
+  return Object.prototype.hasOwnProperty.call(TYPED_DATA_TYPES, action)
+}
+
+export const getTypedDataDomain = () => ({
+  name: 'InkDAO',
+  version: '1',
+  chainId: getChainId(),
+  verifyingContract: getMarketplaceAddress() as `0x${string}`,
+})
+
+/**
+ * The canonical schema a frontend should sign for the given action
+ */
+export const getTypedDataSchema = (action: TypedDataAction) => ({
+  domain: getTypedDataDomain(),
+  primaryType: action,
+  types: {
+    EIP712Domain: [
+      { name: 'name', type: 'string' },
+      { name: 'version', type: 'string' },
+      { name: 'chainId', type: 'uint256' },
+      { name: 'verifyingContract', type: 'address' },
+    ],
+    [action]: TYPED_DATA_TYPES[action],
+  },
+})
+
+export const hashContent = (content: unknown) => {
+  return ethers.keccak256(ethers.toUtf8Bytes(JSON.stringify(content)))
+}
+
+export const hashBytes = (bytes: Uint8Array) => {
+  return ethers.keccak256(bytes)
+}
+
+/**
+ * Signed message values, checked against the schema of the action
+ */
+export type TypedDataMessage = Record<string, string | number>
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> => {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+const isValidField = (type: string, value: unknown): value is string | number => {
+  switch (type) {
+    case 'string':
+      return typeof value === 'string'
+    case 'uint256':
+      return (typeof value === 'number' && Number.isSafeInteger(value) && value >= 0)
+        || (typeof value === 'string' && /^\d+$/.test(value))
+    case 'address':
+      return typeof value === 'string' && ethers.isAddress(value)
+    case 'bytes32':
+      return typeof value === 'string' && /^0x[a-fA-F0-9]{64}$/.test(value)
+    default:
+      return false
+  }
+}
+
+/**
+ * Compare a signed value with the value the route acts on
+ * addresses, bytes and numbers are compared by value, strings exactly (CIDv0 is case-sensitive base58)
+ */
+const matchesBound = (type: string, signed: string | number, value: string) => {
+  try {
+    switch (type) {
+      case 'address':
+        return ethers.getAddress(`${signed}`) === ethers.getAddress(value)
+      case 'bytes32':
+        return ethers.hexlify(`${signed}`) === ethers.hexlify(value)
+      case 'uint256':
+        return BigInt(signed) === BigInt(value)
+      default:
+        return signed === value
+    }
+  } catch {
+    return false
+  }
+}
+
+export type TypedDataResult =
+  | { ok: true, message: TypedDataMessage }
+  | { ok: false, status: 400 | 401, error: string }
+
+/**
+ * Verifies a signed draft action against the server-defined schema
+ * - the message must contain exactly the schema fields
+ * - bound fields (cid, contentHash...) must equal what the route is acting on
+ * - the signature must be recent and its nonce is consumed
+ * - with a session key, the key signs on behalf of the address and must be authorized for the action
+ * @param action - The EIP-712 primary type
+ * @param address - The address that claims to have signed, or that delegated to the session key
+ * @param message - The signed message values
+ * @param signature - The signature over the typed data
+ * @param bound - Values the route is acting on that the message must match
+ * @param sessionKey - Optional session key address that produced the signature
+ * @returns The message when accepted, otherwise the status and error to respond with
+ */
+export async function verifyTypedDataAction(
+  action: TypedDataAction,
+  address: string,
+  message: unknown,
+  signature: string,
+  bound: Record<string, string>,
+  sessionKey?: string
+): Promise<TypedDataResult> {
+  if (!address || !signature || !isPlainObject(message)) {
+    return { ok: false, status: 400, error: 'address, signature and salt.message are required' }
+  }
+
+  const fields = TYPED_DATA_TYPES[action]
+  const unknownField = Object.keys(message).find(key => !fields.some(field => field.name === key))
+  if (unknownField) {
+    return { ok: false, status: 400, error: `Unexpected field ${unknownField} in ${action} message` }
+  }
+  // Only the checked values are bound, signed and returned
+  const signedMessage: TypedDataMessage = {}
+  for (const field of fields) {
+    const value = message[field.name]
+    if (!isValidField(field.type, value)) {
+      return { ok: false, status: 400, error: `Field ${field.name} must be a valid ${field.type}` }
+    }
+    signedMessage[field.name] = value
+  }
+
+  for (const [key, value] of Object.entries(bound)) {
+    const field = fields.find(field => field.name === key)
+    if (!field || !matchesBound(field.type, signedMessage[key], value)) {
+      return { ok: false, status: 401, error: `Signed ${key} does not match the request` }
+    }
+  }
+
+  let signer = address
+  if (sessionKey) {
+    const session = await getSessionKeyForAction(address, sessionKey, action)
+    if (!session) {
+      return { ok: false, status: 401, error: `Session key is not authorized for ${action}` }
+    }
+    signer = session.sessionKey
+  }
+
+  const verified = await verifySignedTypedData(signer, {
+    domain: getTypedDataDomain(),
+    types: { [action]: fields },
+    primaryType: action,
+    message: signedMessage,
+  }, signature)
+  if (!verified) {
+    return { ok: false, status: 401, error: 'Authentication failed' }
+  }
+
+  if (Date.now() / 1000 - parseInt(`${signedMessage.timestamp}`) > MAX_SIGNATURE_AGE_SECONDS) {
+    return { ok: false, status: 401, error: 'Timestamp expired' }
+  }
+
+  const nonceAccepted = await getNonceStore().consume(`${signedMessage.nonce}`, address)
+  if (!nonceAccepted) {
+    return { ok: false, status: 401, error: 'Invalid or already used nonce' }
+  }
+
+  return { ok: true, message: signedMessage }
+}
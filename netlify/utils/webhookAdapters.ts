@@ -0,0 +1,77 @@
+import { validateAlchemySignature, getAlchemySigningKey, validateQuickNodeSignature, getQuickNodeSecurityToken } from './shared.ts'
+import type { RawLog, WebhookAdapter } from './chainEvents.ts'
+
+/**
+ * Alchemy custom webhooks, the GraphQL query selects the logs of a block
+ * with their index, transaction hash and block number
+ * Secured with Alchemy signature validation
+ * @see https://www.alchemy.com/docs/reference/notify-api-quickstart
+ */
+export const alchemyAdapter: WebhookAdapter = {
+  name: 'alchemy',
+  async verify(headers, rawBody) {
+    const signature = headers.get('X-Alchemy-Signature')
+    if (!signature) {
+      return { ok: false, error: 'Missing signature header' }
+    }
+    const isValid = await validateAlchemySignature(rawBody, signature, getAlchemySigningKey())
+    return isValid ? { ok: true } : { ok: false, error: 'Invalid signature' }
+  },
+  extractLogs(body) {
+    const block = body?.event?.data?.block
+    return (block?.logs || []).map((log: any): RawLog => ({
+      address: log.account?.address,
+      txHash: log.transaction?.hash,
+      logIndex: log.index,
+      blockNumber: block.number,
+      topics: log.topics,
+      data: log.data,
+      removed: log.removed,
+    }))
+  },
+}
+
+/**
+ * QuickNode Streams with a receipts filter
+ * Secured with QuickNode Streams signature validation
+ * @see https://www.quicknode.com/guides/quicknode-products/streams/validating-incoming-streams-webhook-messages
+ */
+export const quickNodeAdapter: WebhookAdapter = {
+  name: 'quicknode',
+  async verify(headers, rawBody) {
+    const nonce = headers.get('X-QN-Nonce')
+    const timestamp = headers.get('X-QN-Timestamp')
+    const signature = headers.get('X-QN-Signature')
+    if (!nonce || !timestamp || !signature) {
+      return { ok: false, error: 'Missing required headers (X-QN-Nonce, X-QN-Timestamp, X-QN-Signature)' }
+    }
+    // HMAC-SHA256(nonce + timestamp + payload)
+    const isValid = await validateQuickNodeSignature(rawBody, nonce, timestamp, signature, getQuickNodeSecurityToken())
+    return isValid ? { ok: true } : { ok: false, error: 'Invalid signature' }
+  },
+  extractLogs(body) {
+    const receipts: any[] = body?.matchingReceipts || []
+    return receipts.flatMap(receipt => (receipt?.logs || []).map((log: any): RawLog => ({
+      address: log.address,
+      txHash: log.transactionHash || receipt.transactionHash,
+      logIndex: log.logIndex,
+      blockNumber: log.blockNumber ?? receipt.blockNumber,
+      topics: log.topics,
+      data: log.data,
+      removed: log.removed,
+    })))
+  },
+}
+
+/**
+ * Webhook providers by the name used in their route, /webhook/<name>/publish
+ * a new provider only needs an adapter registered here and its route in the config
+ */
+const WEBHOOK_ADAPTERS: Record<string, WebhookAdapter> = {
+  [alchemyAdapter.name]: alchemyAdapter,
+  [quickNodeAdapter.name]: quickNodeAdapter,
+}
+
+export const getWebhookAdapter = (name: string): WebhookAdapter | null => {
+  return WEBHOOK_ADAPTERS[name] || null
+}